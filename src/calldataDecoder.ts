@@ -0,0 +1,374 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import { Interface, Result } from '@ethersproject/abi'
+import { Percentage, Time, toBN, Wei } from 'web3-units'
+import ManagerArtifact from '@primitivefi/rmm-manager/artifacts/contracts/PrimitiveManager.sol/PrimitiveManager.json'
+
+import { Engine } from './entities/engine'
+
+/** Function of the Primitive Manager decoded from calldata. */
+export enum ActionType {
+  SelfPermit = 'SelfPermit',
+  Create = 'Create',
+  Allocate = 'Allocate',
+  Remove = 'Remove',
+  Deposit = 'Deposit',
+  Withdraw = 'Withdraw',
+  Swap = 'Swap',
+  Unwrap = 'Unwrap',
+  SweepToken = 'SweepToken',
+  RefundETH = 'RefundETH',
+  SafeTransferFrom = 'SafeTransferFrom',
+  SafeBatchTransferFrom = 'SafeBatchTransferFrom'
+}
+
+/** Decoded `selfPermit`, `selfPermitAllowed` and their `IfNecessary` variants. */
+export interface SelfPermitAction {
+  type: ActionType.SelfPermit
+  /** Name of the function, e.g. `selfPermitAllowed`. */
+  method: string
+  token: string
+  /** True if the permit is a DAI-style `permit` with a nonce, rather than an EIP-2612 `permit` with a value. */
+  allowed: boolean
+  /** Value of the EIP-2612 permit, in the decimals of `token`. */
+  value?: Wei
+  /** Nonce of the DAI-style permit. */
+  nonce?: BigNumber
+  /** Deadline of the EIP-2612 permit, or expiry of the DAI-style permit. */
+  deadline: BigNumber
+  v: number
+  r: string
+  s: string
+}
+
+/** Decoded `create`. */
+export interface CreateAction {
+  type: ActionType.Create
+  risky: string
+  stable: string
+  strike: Wei
+  sigma: Percentage
+  maturity: Time
+  gamma: Percentage
+  riskyPerLp: Wei
+  delLiquidity: Wei
+}
+
+/** Decoded `allocate`. */
+export interface AllocateAction {
+  type: ActionType.Allocate
+  recipient: string
+  poolId: string
+  risky: string
+  stable: string
+  delRisky: Wei
+  delStable: Wei
+  fromMargin: boolean
+  minLiquidityOut: Wei
+}
+
+/** Decoded `remove`. */
+export interface RemoveAction {
+  type: ActionType.Remove
+  engine: string
+  poolId: string
+  delLiquidity: Wei
+  minRiskyOut: Wei
+  minStableOut: Wei
+}
+
+/** Decoded `deposit`. */
+export interface DepositAction {
+  type: ActionType.Deposit
+  recipient: string
+  risky: string
+  stable: string
+  delRisky: Wei
+  delStable: Wei
+}
+
+/** Decoded `withdraw`. */
+export interface WithdrawAction {
+  type: ActionType.Withdraw
+  recipient: string
+  engine: string
+  delRisky: Wei
+  delStable: Wei
+}
+
+/** Decoded `swap`. */
+export interface SwapAction {
+  type: ActionType.Swap
+  recipient: string
+  risky: string
+  stable: string
+  poolId: string
+  riskyForStable: boolean
+  deltaIn: Wei
+  deltaOut: Wei
+  fromMargin: boolean
+  toMargin: boolean
+  deadline: BigNumber
+}
+
+/** Decoded `unwrap`, with the amount in the 18 decimals of the wrapped native currency. */
+export interface UnwrapAction {
+  type: ActionType.Unwrap
+  amountMin: Wei
+  recipient: string
+}
+
+/** Decoded `sweepToken`. */
+export interface SweepTokenAction {
+  type: ActionType.SweepToken
+  token: string
+  amountMin: Wei
+  recipient: string
+}
+
+/** Decoded `refundETH`. */
+export interface RefundETHAction {
+  type: ActionType.RefundETH
+}
+
+/** Decoded `safeTransferFrom` of a liquidity token. */
+export interface SafeTransferFromAction {
+  type: ActionType.SafeTransferFrom
+  from: string
+  to: string
+  id: string
+  amount: Wei
+  data: string
+}
+
+/** Decoded `safeBatchTransferFrom` of liquidity tokens. */
+export interface SafeBatchTransferFromAction {
+  type: ActionType.SafeBatchTransferFrom
+  from: string
+  to: string
+  ids: string[]
+  amounts: Wei[]
+  data: string
+}
+
+/** Any action decoded from calldata of the Primitive Manager. */
+export type Action =
+  | SelfPermitAction
+  | CreateAction
+  | AllocateAction
+  | RemoveAction
+  | DepositAction
+  | WithdrawAction
+  | SwapAction
+  | UnwrapAction
+  | SweepTokenAction
+  | RefundETHAction
+  | SafeTransferFromAction
+  | SafeBatchTransferFromAction
+
+/**
+ * Abstract class with static methods to decode calldata of the Primitive Manager into actions.
+ *
+ * @beta
+ */
+export abstract class CalldataDecoder {
+  public static INTERFACE: Interface = new Interface(ManagerArtifact.abi)
+
+  /** Decimals of tokens which are not in any of the Engines supplied to {@link CalldataDecoder.decode}. */
+  public static readonly DEFAULT_DECIMALS = 18
+
+  private constructor() {}
+
+  /**
+   * Gets the actions of `calldata`, in order of execution.
+   *
+   * @remarks
+   * Calls within a `multicall`, including nested ones, are flattened into the returned actions.
+   * Token amounts have the decimals of their token in `engines`, which can be Pool entities,
+   * or {@link CalldataDecoder.DEFAULT_DECIMALS} if the token is not in any of them.
+   * Liquidity amounts always have 18 decimals.
+   *
+   * @param calldata Hex encoded calldata, e.g. the `calldata` of {@link MethodParameters}.
+   * @param engines Engines, or Pools, which the calldata interacts with.
+   *
+   * @throws
+   * Throws if `calldata` is not a call to a supported function of the Primitive Manager.
+   *
+   * @beta
+   */
+  public static decode(calldata: string, engines: Engine[] = []): Action[] {
+    let description
+    try {
+      description = CalldataDecoder.INTERFACE.parseTransaction({ data: calldata })
+    } catch (error) {
+      throw new Error(`Unknown function selector: ${calldata.substring(0, 10)}`)
+    }
+
+    const args = description.args
+    if (description.name === 'multicall') {
+      return (args.data as string[]).reduce<Action[]>(
+        (actions, data) => actions.concat(CalldataDecoder.decode(data, engines)),
+        []
+      )
+    }
+
+    const tokenWei = (amount: BigNumber, token: string) => new Wei(amount, CalldataDecoder.getDecimals(engines, token))
+    const engineWei = (amount: BigNumber, engine: string, risky: boolean) => {
+      const found = engines.find(e => e.address.toLowerCase() === engine.toLowerCase())
+      const decimals = found ? (risky ? found.risky.decimals : found.stable.decimals) : CalldataDecoder.DEFAULT_DECIMALS
+      return new Wei(amount, decimals)
+    }
+    const liquidityWei = (amount: BigNumber) => new Wei(amount, 18)
+
+    switch (description.name) {
+      case 'selfPermit':
+      case 'selfPermitIfNecessary':
+        return [CalldataDecoder.decodePermit(description.name, args, false, engines)]
+      case 'selfPermitAllowed':
+      case 'selfPermitAllowedIfNecessary':
+        return [CalldataDecoder.decodePermit(description.name, args, true, engines)]
+      case 'create':
+        return [
+          {
+            type: ActionType.Create,
+            risky: args.risky,
+            stable: args.stable,
+            strike: tokenWei(args.strike, args.stable),
+            sigma: new Percentage(toBN(args.sigma)),
+            maturity: new Time(Number(args.maturity)),
+            gamma: new Percentage(toBN(args.gamma)),
+            riskyPerLp: tokenWei(args.riskyPerLp, args.risky),
+            delLiquidity: liquidityWei(args.delLiquidity)
+          }
+        ]
+      case 'allocate':
+        return [
+          {
+            type: ActionType.Allocate,
+            recipient: args.recipient,
+            poolId: args.poolId,
+            risky: args.risky,
+            stable: args.stable,
+            delRisky: tokenWei(args.delRisky, args.risky),
+            delStable: tokenWei(args.delStable, args.stable),
+            fromMargin: args.fromMargin,
+            minLiquidityOut: liquidityWei(args.minLiquidityOut)
+          }
+        ]
+      case 'remove':
+        return [
+          {
+            type: ActionType.Remove,
+            engine: args.engine,
+            poolId: args.poolId,
+            delLiquidity: liquidityWei(args.delLiquidity),
+            minRiskyOut: engineWei(args.minRiskyOut, args.engine, true),
+            minStableOut: engineWei(args.minStableOut, args.engine, false)
+          }
+        ]
+      case 'deposit':
+        return [
+          {
+            type: ActionType.Deposit,
+            recipient: args.recipient,
+            risky: args.risky,
+            stable: args.stable,
+            delRisky: tokenWei(args.delRisky, args.risky),
+            delStable: tokenWei(args.delStable, args.stable)
+          }
+        ]
+      case 'withdraw':
+        return [
+          {
+            type: ActionType.Withdraw,
+            recipient: args.recipient,
+            engine: args.engine,
+            delRisky: engineWei(args.delRisky, args.engine, true),
+            delStable: engineWei(args.delStable, args.engine, false)
+          }
+        ]
+      case 'swap': {
+        const params = args.params
+        const [tokenIn, tokenOut] = params.riskyForStable
+          ? [params.risky, params.stable]
+          : [params.stable, params.risky]
+        return [
+          {
+            type: ActionType.Swap,
+            recipient: params.recipient,
+            risky: params.risky,
+            stable: params.stable,
+            poolId: params.poolId,
+            riskyForStable: params.riskyForStable,
+            deltaIn: tokenWei(params.deltaIn, tokenIn),
+            deltaOut: tokenWei(params.deltaOut, tokenOut),
+            fromMargin: params.fromMargin,
+            toMargin: params.toMargin,
+            deadline: params.deadline
+          }
+        ]
+      }
+      case 'unwrap':
+        return [{ type: ActionType.Unwrap, amountMin: new Wei(args.amountMin, 18), recipient: args.recipient }]
+      case 'sweepToken':
+        return [
+          {
+            type: ActionType.SweepToken,
+            token: args.token,
+            amountMin: tokenWei(args.amountMin, args.token),
+            recipient: args.recipient
+          }
+        ]
+      case 'refundETH':
+        return [{ type: ActionType.RefundETH }]
+      case 'safeTransferFrom':
+        return [
+          {
+            type: ActionType.SafeTransferFrom,
+            from: args.from,
+            to: args.to,
+            id: args.id.toString(),
+            amount: liquidityWei(args.amount),
+            data: args.data
+          }
+        ]
+      case 'safeBatchTransferFrom':
+        return [
+          {
+            type: ActionType.SafeBatchTransferFrom,
+            from: args.from,
+            to: args.to,
+            ids: (args.ids as BigNumber[]).map(id => id.toString()),
+            amounts: (args.amounts as BigNumber[]).map(liquidityWei),
+            data: args.data
+          }
+        ]
+      default:
+        throw new Error(`Unsupported function: ${description.name}`)
+    }
+  }
+
+  /** Gets a permit action from the arguments of a self permit function. */
+  private static decodePermit(method: string, args: Result, allowed: boolean, engines: Engine[]): SelfPermitAction {
+    return {
+      type: ActionType.SelfPermit,
+      method,
+      token: args.token,
+      allowed,
+      value: allowed ? undefined : new Wei(args.value, CalldataDecoder.getDecimals(engines, args.token)),
+      nonce: allowed ? args.nonce : undefined,
+      deadline: allowed ? args.expiry : args.deadline,
+      v: args.v,
+      r: args.r,
+      s: args.s
+    }
+  }
+
+  /** Gets the decimals of `token` from the first Engine which has it. */
+  private static getDecimals(engines: Engine[], token: string): number {
+    for (const engine of engines) {
+      if (engine.risky.address.toLowerCase() === token.toLowerCase()) return engine.risky.decimals
+      if (engine.stable.address.toLowerCase() === token.toLowerCase()) return engine.stable.decimals
+    }
+    return CalldataDecoder.DEFAULT_DECIMALS
+  }
+}
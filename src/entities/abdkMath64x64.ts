@@ -0,0 +1,286 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber'
+import invariant from 'tiny-invariant'
+
+/** 2^64 as a BigNumber, the denominator of every signed 64.64 fixed point number. */
+const Q64 = BigNumber.from(2).pow(64)
+
+/** 2^128 as a BigNumber. */
+const Q128 = BigNumber.from(2).pow(128)
+
+/** Largest unsigned 256-bit integer. */
+const MAX_UINT_256 = BigNumber.from(2)
+  .pow(256)
+  .sub(1)
+
+/** log_2(e) as an unsigned 128.128 fixed point number. */
+const LOG2_E = BigNumber.from('0x171547652B82FE1777D0FFDA0D23A7D12')
+
+/** ln(2) as an unsigned 128.128 fixed point number. */
+const LN_2 = BigNumber.from('0xB17217F7D1CF79ABC9E3B39803F2F6AF')
+
+/** Magic factors used in `exp_2`, one for each fractional bit of the exponent, from the most to least significant bit. */
+const EXP_2_FACTORS = [
+  '0x16A09E667F3BCC908B2FB1366EA957D3E',
+  '0x1306FE0A31B7152DE8D5A46305C85EDEC',
+  '0x1172B83C7D517ADCDF7C8C50EB14A791F',
+  '0x10B5586CF9890F6298B92B71842A98363',
+  '0x1059B0D31585743AE7C548EB68CA417FD',
+  '0x102C9A3E778060EE6F7CACA4F7A29BDE8',
+  '0x10163DA9FB33356D84A66AE336DCDFA3F',
+  '0x100B1AFA5ABCBED6129AB13EC11DC9543',
+  '0x10058C86DA1C09EA1FF19D294CF2F679B',
+  '0x1002C605E2E8CEC506D21BFC89A23A00F',
+  '0x100162F3904051FA128BCA9C55C31E5DF',
+  '0x1000B175EFFDC76BA38E31671CA939725',
+  '0x100058BA01FB9F96D6CACD4B180917C3D',
+  '0x10002C5CC37DA9491D0985C348C68E7B3',
+  '0x1000162E525EE054754457D5995292026',
+  '0x10000B17255775C040618BF4A4ADE83FC',
+  '0x1000058B91B5BC9AE2EED81E9B7D4CFAB',
+  '0x100002C5C89D5EC6CA4D7C8ACC017B7C9',
+  '0x10000162E43F4F831060E02D839A9D16D',
+  '0x100000B1721BCFC99D9F890EA06911763',
+  '0x10000058B90CF1E6D97F9CA14DBCC1628',
+  '0x1000002C5C863B73F016468F6BAC5CA2B',
+  '0x100000162E430E5A18F6119E3C02282A5',
+  '0x1000000B1721835514B86E6D96EFD1BFE',
+  '0x100000058B90C0B48C6BE5DF846C5B2EF',
+  '0x10000002C5C8601CC6B9E94213C72737A',
+  '0x1000000162E42FFF037DF38AA2B219F06',
+  '0x10000000B17217FBA9C739AA5819F44F9',
+  '0x1000000058B90BFCDEE5ACD3C1CEDC823',
+  '0x100000002C5C85FE31F35A6A30DA1BE50',
+  '0x10000000162E42FF0999CE3541B9FFFCF',
+  '0x100000000B17217F80F4EF5AADDA45554',
+  '0x10000000058B90BFBF8479BD5A81B51AD',
+  '0x1000000002C5C85FDF84BD62AE30A74CC',
+  '0x100000000162E42FEFB2FED257559BDAA',
+  '0x1000000000B17217F7D5A7716BBA4A9AE',
+  '0x100000000058B90BFBE9DDBAC5E109CCE',
+  '0x10000000002C5C85FDF4B15DE6F17EB0D',
+  '0x1000000000162E42FEFA494F1478FDE05',
+  '0x10000000000B17217F7D20CF927C8E94C',
+  '0x1000000000058B90BFBE8F71CB4E4B33D',
+  '0x100000000002C5C85FDF477B662B26945',
+  '0x10000000000162E42FEFA3AE53369388C',
+  '0x100000000000B17217F7D1D351A389D40',
+  '0x10000000000058B90BFBE8E8B2D3D4EDE',
+  '0x1000000000002C5C85FDF4741BEA6E77E',
+  '0x100000000000162E42FEFA39FE95583C2',
+  '0x1000000000000B17217F7D1CFB72B45E1',
+  '0x100000000000058B90BFBE8E7CC35C3F0',
+  '0x10000000000002C5C85FDF473E242EA38',
+  '0x1000000000000162E42FEFA39F02B772C',
+  '0x10000000000000B17217F7D1CF7D83C1A',
+  '0x1000000000000058B90BFBE8E7BDCBE2E',
+  '0x100000000000002C5C85FDF473DEA871F',
+  '0x10000000000000162E42FEFA39EF44D91',
+  '0x100000000000000B17217F7D1CF79E949',
+  '0x10000000000000058B90BFBE8E7BCE544',
+  '0x1000000000000002C5C85FDF473DE6ECA',
+  '0x100000000000000162E42FEFA39EF366F',
+  '0x1000000000000000B17217F7D1CF79AFA',
+  '0x100000000000000058B90BFBE8E7BCD6D',
+  '0x10000000000000002C5C85FDF473DE6B2',
+  '0x1000000000000000162E42FEFA39EF358',
+  '0x10000000000000000B17217F7D1CF79AB'
+].map(factor => BigNumber.from(factor))
+
+/**
+ * Arithmetic shift right, which rounds towards negative infinity like the EVM's signed `>>` operator.
+ *
+ * @param x Signed integer to shift.
+ * @param bits Amount of bits to shift by.
+ */
+function sar(x: BigNumber, bits: number): BigNumber {
+  const denominator = BigNumber.from(2).pow(bits)
+  if (x.gte(0)) return x.div(denominator)
+  return x
+    .add(1)
+    .div(denominator)
+    .sub(1)
+}
+
+/**
+ * Port of the ABDK signed 64.64 fixed point math library used by the PrimitiveEngine.sol smart contract.
+ *
+ * @remarks
+ * Every function returns the exact same integer as its Solidity counterpart, including the rounding direction.
+ * Reverts in the smart contract are thrown as invariant errors.
+ *
+ * {@link https://github.com/abdk-consulting/abdk-libraries-solidity}
+ *
+ * @beta
+ */
+export class ABDKMath64x64 {
+  /** Minimum value a signed 64.64 fixed point number can have, -2^127. */
+  static readonly MIN_64x64 = BigNumber.from('-0x80000000000000000000000000000000')
+
+  /** Maximum value a signed 64.64 fixed point number can have, 2^127 - 1. */
+  static readonly MAX_64x64 = BigNumber.from('0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF')
+
+  /** Throws if `x` is not within the bounds of a signed 64.64 fixed point number. */
+  private static checkBounds(x: BigNumber): BigNumber {
+    invariant(
+      x.gte(ABDKMath64x64.MIN_64x64) && x.lte(ABDKMath64x64.MAX_64x64),
+      `Value overflows a signed 64.64 fixed point number: ${x.toString()}`
+    )
+    return x
+  }
+
+  /** Converts an unsigned integer into a signed 64.64 fixed point number. */
+  public static fromUInt(x: BigNumberish): BigNumber {
+    const value = BigNumber.from(x)
+    invariant(value.gte(0) && value.lte('0x7FFFFFFFFFFFFFFF'), `Value out of bounds: ${value.toString()}`)
+    return value.mul(Q64)
+  }
+
+  /** Calculates x + y. */
+  public static add(x: BigNumber, y: BigNumber): BigNumber {
+    return ABDKMath64x64.checkBounds(x.add(y))
+  }
+
+  /** Calculates x - y. */
+  public static sub(x: BigNumber, y: BigNumber): BigNumber {
+    return ABDKMath64x64.checkBounds(x.sub(y))
+  }
+
+  /** Calculates x * y, rounding towards negative infinity. */
+  public static mul(x: BigNumber, y: BigNumber): BigNumber {
+    return ABDKMath64x64.checkBounds(sar(x.mul(y), 64))
+  }
+
+  /** Calculates x * y, where `x` is a signed 64.64 fixed point number and `y` is an unsigned integer, rounding down. */
+  public static mulu(x: BigNumber, y: BigNumberish): BigNumber {
+    const value = BigNumber.from(y)
+    if (value.isZero()) return value
+    invariant(x.gte(0), `Cannot multiply a negative fixed point number with an unsigned integer: ${x.toString()}`)
+    const result = x.mul(value).div(Q64)
+    invariant(result.lte(MAX_UINT_256), `Value overflows an unsigned 256-bit integer: ${result.toString()}`)
+    return result
+  }
+
+  /** Calculates x / y, rounding towards zero. */
+  public static div(x: BigNumber, y: BigNumber): BigNumber {
+    invariant(!y.isZero(), 'Division by zero')
+    return ABDKMath64x64.checkBounds(x.mul(Q64).div(y))
+  }
+
+  /** Calculates x / y, where `x` and `y` are unsigned integers, rounding down. */
+  public static divu(x: BigNumberish, y: BigNumberish): BigNumber {
+    const denominator = BigNumber.from(y)
+    invariant(!denominator.isZero(), 'Division by zero')
+    const result = BigNumber.from(x)
+      .mul(Q64)
+      .div(denominator)
+    invariant(result.lte(ABDKMath64x64.MAX_64x64), `Value overflows a signed 64.64 fixed point number: ${result}`)
+    return result
+  }
+
+  /** Calculates -x. */
+  public static neg(x: BigNumber): BigNumber {
+    invariant(!x.eq(ABDKMath64x64.MIN_64x64), 'Cannot negate the minimum value')
+    return x.mul(-1)
+  }
+
+  /** Calculates |x|. */
+  public static abs(x: BigNumber): BigNumber {
+    invariant(!x.eq(ABDKMath64x64.MIN_64x64), 'Cannot take the absolute value of the minimum value')
+    return x.lt(0) ? x.mul(-1) : x
+  }
+
+  /** Calculates the square root of x, rounding down. */
+  public static sqrt(x: BigNumber): BigNumber {
+    invariant(x.gte(0), `Cannot take the square root of a negative number: ${x.toString()}`)
+    return ABDKMath64x64.sqrtu(x.mul(Q64))
+  }
+
+  /** Calculates the binary logarithm of x. */
+  public static log_2(x: BigNumber): BigNumber {
+    invariant(x.gt(0), `Logarithm is only defined for positive numbers: ${x.toString()}`)
+
+    let msb = 0
+    let xc = x
+    for (const shift of [64, 32, 16, 8, 4, 2]) {
+      if (xc.gte(BigNumber.from(2).pow(shift))) {
+        xc = xc.shr(shift)
+        msb += shift
+      }
+    }
+    if (xc.gte(2)) msb += 1
+
+    let result = BigNumber.from(msb - 64).mul(Q64)
+    let ux = x.shl(127 - msb)
+    for (let bit = BigNumber.from('0x8000000000000000'); bit.gt(0); bit = bit.shr(1)) {
+      ux = ux.mul(ux)
+      const b = ux.shr(255).toNumber()
+      ux = ux.shr(127 + b)
+      result = result.add(bit.mul(b))
+    }
+
+    return result
+  }
+
+  /** Calculates the natural logarithm of x. */
+  public static ln(x: BigNumber): BigNumber {
+    invariant(x.gt(0), `Logarithm is only defined for positive numbers: ${x.toString()}`)
+    return sar(ABDKMath64x64.log_2(x).mul(LN_2), 128)
+  }
+
+  /** Calculates the binary exponent of x. */
+  public static exp_2(x: BigNumber): BigNumber {
+    invariant(x.lt('0x400000000000000000'), `Exponent overflows: ${x.toString()}`)
+    if (x.lt('-0x400000000000000000')) return BigNumber.from(0)
+
+    // two's complement fractional bits and the floored integer part, as used by the signed bitwise operations
+    const fraction = x
+      .mod(Q64)
+      .add(Q64)
+      .mod(Q64)
+    const integer = sar(x, 64)
+
+    let result = BigNumber.from('0x80000000000000000000000000000000')
+    EXP_2_FACTORS.forEach((factor, i) => {
+      if (!fraction.and(BigNumber.from(1).shl(63 - i)).isZero()) result = result.mul(factor).shr(128)
+    })
+    result = result.shr(
+      BigNumber.from(63)
+        .sub(integer)
+        .toNumber()
+    )
+
+    invariant(result.lte(ABDKMath64x64.MAX_64x64), `Value overflows a signed 64.64 fixed point number: ${result}`)
+    return result
+  }
+
+  /** Calculates the natural exponent of x. */
+  public static exp(x: BigNumber): BigNumber {
+    invariant(x.lt('0x400000000000000000'), `Exponent overflows: ${x.toString()}`)
+    if (x.lt('-0x400000000000000000')) return BigNumber.from(0)
+    return ABDKMath64x64.exp_2(sar(x.mul(LOG2_E), 128))
+  }
+
+  /** Calculates the square root of an unsigned integer x, rounding down, using the same Newton iterations. */
+  private static sqrtu(x: BigNumber): BigNumber {
+    if (x.isZero()) return x
+
+    let xx = x
+    let r = BigNumber.from(1)
+    if (xx.gte(Q128)) {
+      xx = xx.shr(128)
+      r = r.shl(64)
+    }
+    for (const shift of [64, 32, 16, 8, 4]) {
+      if (xx.gte(BigNumber.from(2).pow(shift))) {
+        xx = xx.shr(shift)
+        r = r.shl(shift / 2)
+      }
+    }
+    if (xx.gte(8)) r = r.shl(1)
+
+    for (let i = 0; i < 7; i++) r = r.add(x.div(r)).shr(1)
+
+    const r1 = x.div(r)
+    return r.lt(r1) ? r : r1
+  }
+}
@@ -0,0 +1,128 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import invariant from 'tiny-invariant'
+
+import { ABDKMath64x64 } from './abdkMath64x64'
+
+/**
+ * Port of the CumulativeNormalDistribution.sol library used by the PrimitiveEngine.sol smart contract.
+ *
+ * @remarks
+ * All inputs and outputs are signed 64.64 fixed point numbers.
+ * These are the same approximations used in the smart contracts, computed with the same integer math.
+ *
+ * @beta
+ */
+export class CumulativeNormalDistribution {
+  static readonly ONE_INT = BigNumber.from('0x10000000000000000')
+  static readonly HALF_INT = BigNumber.from('0x8000000000000000')
+
+  static readonly CDF0 = BigNumber.from('0x53dd02a4f5ee2e46')
+  static readonly CDF1 = BigNumber.from('0x413c831bb169f874')
+  static readonly CDF2 = BigNumber.from('-0x48d4c730f051a5fe')
+  static readonly CDF3 = BigNumber.from('0x16a09e667f3bcc908')
+  static readonly CDF4 = BigNumber.from('-0x17401c57014c38f14')
+  static readonly CDF5 = BigNumber.from('0x10fb844255a12d72e')
+
+  static readonly INVERSE0 = BigNumber.from('0x26A8F3C1F21B336E')
+  static readonly INVERSE1 = BigNumber.from('-0x87C57E5DA70D3C90')
+  static readonly INVERSE2 = BigNumber.from('0x15D71F5721242C787')
+  static readonly INVERSE3 = BigNumber.from('0x21D0A04B0E9B94F1')
+  static readonly INVERSE4 = BigNumber.from('-0xC2BF5D74C724E53F')
+
+  /** Lower bound of the central region of the inverse CDF, 0.025. */
+  static readonly LOW_TAIL = BigNumber.from('0x666666666666666')
+  /** Upper bound of the central region of the inverse CDF, 0.975. */
+  static readonly HIGH_TAIL = BigNumber.from('0xF999999999999999')
+
+  static readonly C3 = BigNumber.from('-0x1000BF627FA188411')
+  static readonly C0_D = BigNumber.from('0x10AEAC93F55267A9A5')
+  static readonly C1_D = BigNumber.from('0x41ED34A2561490236')
+  static readonly C2_D = BigNumber.from('0x7A1E70F720ECA43')
+  static readonly D0 = BigNumber.from('0x72C7D592D021FB1DB')
+  static readonly D1 = BigNumber.from('0x8C27B4617F5F800EA')
+
+  /**
+   * Gets the standard normal cumulative distribution function of `x`, using the Abramowitz and Stegun approximation.
+   *
+   * @remarks
+   * Maximum error: 3.15x10-3
+   *
+   * @param x Signed 64.64 fixed point number.
+   */
+  public static getCDF(x: BigNumber): BigNumber {
+    const { ONE_INT, HALF_INT, CDF0, CDF3 } = CumulativeNormalDistribution
+    const z = ABDKMath64x64.div(x, CDF3)
+    const t = ABDKMath64x64.div(ONE_INT, ABDKMath64x64.add(ONE_INT, ABDKMath64x64.mul(CDF0, ABDKMath64x64.abs(z))))
+    let erf = CumulativeNormalDistribution.getErrorFunction(z, t)
+    if (z.lt(0)) erf = ABDKMath64x64.neg(erf)
+    return ABDKMath64x64.mul(HALF_INT, ABDKMath64x64.add(ONE_INT, erf))
+  }
+
+  /**
+   * Gets the error function used to approximate the standard normal CDF.
+   *
+   * @remarks
+   * Maximum error: 1.5x10-7
+   */
+  public static getErrorFunction(z: BigNumber, t: BigNumber): BigNumber {
+    const { ONE_INT, CDF1, CDF2, CDF3, CDF4, CDF5 } = CumulativeNormalDistribution
+    const { add, sub, mul, neg, exp } = ABDKMath64x64
+    const step1 = mul(t, add(CDF3, mul(t, add(CDF4, mul(t, CDF5)))))
+    const step2 = add(CDF1, mul(t, add(CDF2, step1)))
+    return sub(ONE_INT, mul(t, mul(step2, exp(neg(mul(z, z))))))
+  }
+
+  /**
+   * Gets the inverse CDF, or quantile function, of `p`.
+   *
+   * {@link https://arxiv.org/pdf/1002.0567.pdf}
+   *
+   * @throws
+   * Throws if `p` is not within the bounds of 0 < p < 1.
+   *
+   * @param p Probability as a signed 64.64 fixed point number.
+   */
+  public static getInverseCDF(p: BigNumber): BigNumber {
+    const { ONE_INT, LOW_TAIL, HIGH_TAIL } = CumulativeNormalDistribution
+    invariant(p.lt(ONE_INT) && p.gt(0), `Inverse CDF input out of bounds: ${p.toString()}`)
+    if (p.lte(HIGH_TAIL) && p.gte(LOW_TAIL)) {
+      return CumulativeNormalDistribution.central(p)
+    } else if (p.lt(LOW_TAIL)) {
+      return CumulativeNormalDistribution.tail(p)
+    } else {
+      return ABDKMath64x64.neg(CumulativeNormalDistribution.tail(ABDKMath64x64.sub(ONE_INT, p)))
+    }
+  }
+
+  /**
+   * Gets the inverse CDF around the central area of 0.025 <= p <= 0.975.
+   *
+   * @remarks
+   * Maximum error: 1.16x10-4
+   */
+  public static central(p: BigNumber): BigNumber {
+    const { HALF_INT, INVERSE0, INVERSE1, INVERSE2, INVERSE3, INVERSE4 } = CumulativeNormalDistribution
+    const { add, sub, mul, div } = ABDKMath64x64
+    const q = sub(p, HALF_INT)
+    const r = mul(q, q)
+    const numerator = add(mul(INVERSE1, r), INVERSE0)
+    const denominator = add(add(mul(r, r), mul(INVERSE4, r)), INVERSE3)
+    return mul(q, add(INVERSE2, div(numerator, denominator)))
+  }
+
+  /**
+   * Gets the inverse CDF of the tail, defined for p < 0.0465, used with p < 0.025.
+   *
+   * @remarks
+   * Maximum error: 2.458x10-5
+   */
+  public static tail(p: BigNumber): BigNumber {
+    const { ONE_INT, C3, C0_D, C1_D, C2_D, D0, D1 } = CumulativeNormalDistribution
+    const { add, mul, div, ln, sqrt } = ABDKMath64x64
+    const r = sqrt(ln(div(ONE_INT, mul(p, p))))
+    const step0 = add(mul(C3, r), C2_D)
+    const numerator = add(mul(C1_D, r), C0_D)
+    const denominator = add(add(mul(r, r), mul(D1, r)), D0)
+    return add(step0, div(numerator, denominator))
+  }
+}
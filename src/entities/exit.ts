@@ -0,0 +1,86 @@
+import { Token } from '@uniswap/sdk-core'
+import { Wei } from 'web3-units'
+
+import { Pool, PoolSides } from './pool'
+import { Trade } from './trade'
+
+/**
+ * Single sided liquidity removal, which removes liquidity from a pool and swaps the unwanted token back through it,
+ * with amounts computed using the Engine's integer math.
+ *
+ * @remarks
+ * The swap is quoted at the reserves of the pool after the liquidity is removed,
+ * and at the {@link Pool.lastTimestamp} of `pool`.
+ *
+ * @beta
+ */
+export class Exit {
+  /** Pool which the liquidity is removed from and the swap is executed in. */
+  public readonly pool: Pool
+
+  /** Amount of liquidity removed. */
+  public readonly delLiquidity: Wei
+
+  /** True if the removed risky tokens are swapped to stable tokens. */
+  public readonly riskyForStable: boolean
+
+  /** Token received for the liquidity. */
+  public readonly outputToken: Token
+
+  /** Amount of risky tokens removed. */
+  public readonly delRisky: Wei
+
+  /** Amount of stable tokens removed. */
+  public readonly delStable: Wei
+
+  /** Exact input swap of the removed amount of the other token, in the pool after the remove. */
+  public readonly trade: Trade
+
+  /**
+   * Gets the exit which receives only `tokenOut` for an exact amount of liquidity.
+   *
+   * @param pool Pool to remove liquidity from and swap in.
+   * @param delLiquidity Amount of liquidity to remove.
+   * @param tokenOut Token to receive, either the risky or stable token of `pool`.
+   *
+   * @beta
+   */
+  public static exactIn(pool: Pool, delLiquidity: Wei, tokenOut: Token): Exit {
+    return new Exit(pool, delLiquidity, !pool.risky.equals(tokenOut))
+  }
+
+  /**
+   * @param pool Pool to remove liquidity from and swap in.
+   * @param delLiquidity Amount of liquidity to remove.
+   * @param riskyForStable True if the removed risky tokens are swapped to stable tokens.
+   *
+   * @throws
+   * Throws if `delLiquidity` is zero or greater than the pool's liquidity.
+   * Throws if the swap would be reverted by the Engine.
+   */
+  constructor(pool: Pool, delLiquidity: Wei, riskyForStable: boolean) {
+    this.pool = pool
+    this.delLiquidity = delLiquidity
+    this.riskyForStable = riskyForStable
+    this.outputToken = riskyForStable ? pool.stable : pool.risky
+
+    const { delRisky, delStable } = pool.liquidityQuote(delLiquidity, PoolSides.RMM_LP)
+    this.delRisky = delRisky
+    this.delStable = delStable
+
+    const poolRemoved = pool.applyRemove(delLiquidity)
+    const [tokenIn, amountIn] = riskyForStable ? [pool.risky, delRisky] : [pool.stable, delStable]
+    this.trade = Trade.exactIn(poolRemoved, tokenIn, amountIn)
+  }
+
+  /** Total amount of `outputToken` received, removed and swapped. */
+  get outputAmount(): Wei {
+    const removed = this.riskyForStable ? this.delStable : this.delRisky
+    return removed.add(this.trade.outputAmount)
+  }
+
+  /** Pool after the remove and swap. */
+  get poolAfter(): Pool {
+    return this.trade.poolAfter
+  }
+}
@@ -4,3 +4,17 @@ export * from './Floating'
 export * from './pool'
 export * from './interfaces'
 export * from './swaps'
+export * from './swapsX64'
+export * from './trade'
+export * from './pathTrade'
+export * from './position'
+export * from './zap'
+export * from './exit'
+export * from './rollover'
+export * from './liquidityPnL'
+export * from './settlement'
+export * from './oracle'
+export * from './poolUri'
+export * from './abdkMath64x64'
+export * from './cumulativeNormalDistribution'
+export * from './replicationMath'
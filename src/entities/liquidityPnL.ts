@@ -0,0 +1,181 @@
+import invariant from 'tiny-invariant'
+import { callPremium } from '@primitivefi/rmm-math'
+import { Time, Wei } from 'web3-units'
+
+import { Pool } from './pool'
+import { SwapsX64 } from './swapsX64'
+import { PoolInterface } from './interfaces'
+
+/**
+ * Profit and loss of an amount of liquidity between two snapshots of the same pool.
+ *
+ * @remarks
+ * All values are denominated in the stable token as floating point numbers.
+ * The `priceEffect`, `timeDecay`, `feeIncome` and `residual` sum to the `pnl`.
+ *
+ * @beta
+ */
+export interface LiquidityPnLResult {
+  /** Value of the liquidity at the entry snapshot and entry price. */
+  entryValue: number
+
+  /** Value of the liquidity at the current snapshot and current price. */
+  currentValue: number
+
+  /** Value of the tokens deposited at entry, if held instead, at the current price. */
+  hodlValue: number
+
+  /** Theoretical value of the covered calls replicated by the liquidity, at the current price and time until expiry. */
+  coveredCallValue: number
+
+  /** Difference of `currentValue` and `entryValue`. */
+  pnl: number
+
+  /** Difference of `currentValue` and `hodlValue`, negative if providing liquidity lost value compared to holding. */
+  impermanentLoss: number
+
+  /** Difference of `currentValue` and `coveredCallValue`. */
+  versusCoveredCall: number
+
+  /** Change in theoretical covered call value from the change in price, at the entry time until expiry. */
+  priceEffect: number
+
+  /** Change in theoretical covered call value from the change in time until expiry, at the current price. */
+  timeDecay: number
+
+  /**
+   * Fees earned from the `gamma` fee of swaps, which is the growth of the invariant per liquidity between the
+   * snapshots, both computed at the current time until expiry.
+   *
+   * @remarks
+   * Swaps without a fee keep the invariant constant, so the fee paid is the amount of stable tokens per liquidity
+   * added to the reserves above the trading curve.
+   */
+  feeIncome: number
+
+  /**
+   * Change in value which is not explained by the `priceEffect`, `timeDecay` and `feeIncome`.
+   *
+   * @remarks
+   * Includes the change in the difference between the pool's reported price and the price the liquidity is valued at,
+   * the error of computing the fees at a single time until expiry, and the rounding of the Engine.
+   */
+  residual: number
+}
+
+/**
+ * Static functions to compare the value of liquidity against holding tokens and the theoretical covered call.
+ *
+ * @beta
+ */
+export class LiquidityPnL {
+  /**
+   * Gets the profit and loss of `liquidity` from the `entry` snapshot to the `current` snapshot of a pool.
+   *
+   * @param entry Pool when the liquidity was provided.
+   * @param current Pool to value the liquidity at.
+   * @param liquidity Amount of liquidity, with 18 decimals.
+   * @param entryPrice Price of the risky token at entry, defaults to the entry's reference or reported price.
+   * @param currentPrice Price of the risky token now, defaults to the current reference or reported price.
+   *
+   * @throws
+   * Throws if the snapshots are not of the same pool.
+   * Throws if `liquidity` does not have 18 decimals.
+   * Throws if a price is not defined and cannot be derived from its snapshot.
+   *
+   * @beta
+   */
+  public static between(
+    entry: Pool | PoolInterface,
+    current: Pool | PoolInterface,
+    liquidity: Wei,
+    entryPrice?: number,
+    currentPrice?: number
+  ): LiquidityPnLResult {
+    const entryPool = entry instanceof Pool ? entry : Pool.from(entry)
+    const currentPool = current instanceof Pool ? current : Pool.from(current)
+    invariant(entryPool.poolId === currentPool.poolId, `Pool mismatch: ${entryPool.poolId} != ${currentPool.poolId}`)
+    invariant(liquidity.decimals === 18, `Liquidity decimals must be 18: ${liquidity.decimals}`)
+
+    const spotEntry = entryPrice ?? LiquidityPnL.getPrice(entryPool)
+    const spotCurrent = currentPrice ?? LiquidityPnL.getPrice(currentPool)
+    invariant(spotEntry > 0 && spotCurrent > 0, 'Price must be greater than zero')
+
+    const units = liquidity.float
+    const entryValue = entryPool.getCurrentLiquidityValue(spotEntry).valuePerLiquidity.float * units
+    const currentValue = currentPool.getCurrentLiquidityValue(spotCurrent).valuePerLiquidity.float * units
+
+    const riskyPerLiquidity = entryPool.reserveRisky.float / entryPool.liquidity.float
+    const stablePerLiquidity = entryPool.reserveStable.float / entryPool.liquidity.float
+    const hodlValue = (riskyPerLiquidity * spotCurrent + stablePerLiquidity) * units
+
+    const theoretical = (pool: Pool, spot: number) => LiquidityPnL.getCoveredCallValue(pool, spot) * units
+    const entryTheoretical = theoretical(entryPool, spotEntry)
+    const movedTheoretical = theoretical(entryPool, spotCurrent)
+    const coveredCallValue = theoretical(currentPool, spotCurrent)
+    const feeIncome = LiquidityPnL.getFeeIncome(entryPool, currentPool) * units
+
+    return {
+      entryValue,
+      currentValue,
+      hodlValue,
+      coveredCallValue,
+      pnl: currentValue - entryValue,
+      impermanentLoss: currentValue - hodlValue,
+      versusCoveredCall: currentValue - coveredCallValue,
+      priceEffect: movedTheoretical - entryTheoretical,
+      timeDecay: coveredCallValue - movedTheoretical,
+      feeIncome,
+      residual: currentValue - coveredCallValue - (entryValue - entryTheoretical) - feeIncome
+    }
+  }
+
+  /**
+   * Gets the theoretical value of the covered call replicated by one unit of liquidity, equal to `spot - premium`.
+   *
+   * @remarks
+   * At or after `maturity`, the covered call is worth its payoff, the minimum of `spot` and the strike.
+   *
+   * @param pool Pool with the calibration and `lastTimestamp` to value the covered call at.
+   * @param spot Price of the risky token denominated in the stable token.
+   *
+   * @beta
+   */
+  public static getCoveredCallValue(pool: Pool, spot: number): number {
+    const strike = pool.strike.float
+    if (pool.tau.raw <= 0) return Math.min(spot, strike)
+    return spot - callPremium(strike, pool.sigma.float, pool.tau.years, spot)
+  }
+
+  /**
+   * Gets the fees earned per liquidity from `entry` to `current`, the growth of the invariant per liquidity, with both
+   * invariants computed like `PrimitiveEngine.invariantOf` at the time until expiry of `current`.
+   *
+   * @param entry Pool when the liquidity was provided.
+   * @param current Pool with the same calibration, after the swaps which paid the fees.
+   *
+   * @beta
+   */
+  public static getFeeIncome(entry: Pool, current: Pool): number {
+    const tau = current.tau.raw > 0 ? current.tau : new Time(0) // engine clamps timestamps to maturity
+    const invariantOf = (pool: Pool) =>
+      SwapsX64.invariantOf(
+        pool.risky.decimals,
+        pool.stable.decimals,
+        pool.reserveRisky,
+        pool.reserveStable,
+        pool.liquidity,
+        pool.strike,
+        pool.sigma,
+        tau
+      ).parsed
+    return invariantOf(current) - invariantOf(entry)
+  }
+
+  /** Gets the reference price of `pool`, or its reported price if undefined. */
+  private static getPrice(pool: Pool): number {
+    const price = pool.referencePriceOfRisky ?? pool.reportedPriceOfRisky
+    invariant(price, `Price of risky is undefined for pool: ${pool.poolId}`)
+    return price.float
+  }
+}
@@ -0,0 +1,193 @@
+import invariant from 'tiny-invariant'
+import { BigNumber } from '@ethersproject/bignumber'
+import { parseWei, Wei } from 'web3-units'
+
+import { Pool } from './pool'
+import { Swaps } from './swaps'
+import { ReserveStruct } from './interfaces'
+
+/** Cumulative reserves of a pool at a timestamp, as accumulated by the Engine. */
+export interface ReserveObservation {
+  /** Timestamp in seconds of the observation, as a uint32. */
+  timestamp: number
+
+  /** Cumulative sum of risky reserves multiplied by seconds, as a uint256. */
+  cumulativeRisky: BigNumber
+
+  /** Cumulative sum of stable reserves multiplied by seconds, as a uint256. */
+  cumulativeStable: BigNumber
+
+  /** Cumulative sum of liquidity multiplied by seconds, as a uint256. */
+  cumulativeLiquidity: BigNumber
+}
+
+/** Time-weighted averages of a pool between two observations. */
+export interface TwapResult {
+  /** Seconds between the observations. */
+  deltaTime: number
+
+  /** Time-weighted average of the risky reserve. */
+  averageRisky: Wei
+
+  /** Time-weighted average of the stable reserve. */
+  averageStable: Wei
+
+  /** Time-weighted average of the liquidity. */
+  averageLiquidity: Wei
+
+  /** Average risky reserve per liquidity, equal to the ratio of the cumulative risky and liquidity differences. */
+  riskyPerLiquidity: Wei
+
+  /** Average stable reserve per liquidity, equal to the ratio of the cumulative stable and liquidity differences. */
+  stablePerLiquidity: Wei
+
+  /**
+   * Time-weighted average of the reported price of the risky token, denominated in the stable token.
+   *
+   * @remarks
+   * The reported price of each interval between two observations is computed at its average risky reserve per
+   * liquidity, with the time until expiry at the end of the interval, and weighted by the seconds of the interval.
+   * Undefined if the pool is expired at the end of an interval, or had no liquidity during an interval.
+   */
+  priceOfRisky: Wei | undefined
+}
+
+/**
+ * Static functions to compute time-weighted averages from the cumulative reserves of the Engine.
+ *
+ * @remarks
+ * The Engine accumulates each reserve multiplied by the seconds since its last update, in an unchecked uint256,
+ * with a uint32 `blockTimestamp`. Differences of cumulative values and timestamps are computed modulo their size,
+ * so the averages are correct across an overflow, as long as observations are less than 2^32 seconds apart.
+ *
+ * @beta
+ */
+export class Oracle {
+  /** Modulo of the cumulative reserves, which are uint256. */
+  public static readonly CUMULATIVE_MODULO: BigNumber = BigNumber.from(2).pow(256)
+
+  /** Modulo of the timestamps, which are uint32. */
+  public static readonly TIMESTAMP_MODULO: number = 2 ** 32
+
+  /**
+   * Gets the cumulative reserves of `reserve` at `timestamp`.
+   *
+   * @remarks
+   * If `timestamp` is after the `blockTimestamp` of the reserve, the cumulative values are accumulated with the
+   * current reserves, like `Reserve.update` of the Engine would.
+   *
+   * @param reserve Reserve struct read from the Engine, with the cumulative values and `blockTimestamp`.
+   * @param timestamp Timestamp in seconds to observe at, defaults to the `blockTimestamp` of the reserve.
+   *
+   * @throws
+   * Throws if `reserve` does not have the `blockTimestamp` and cumulative values.
+   *
+   * @beta
+   */
+  public static observe(reserve: ReserveStruct, timestamp?: number): ReserveObservation {
+    const { blockTimestamp, cumulativeRisky, cumulativeStable, cumulativeLiquidity } = reserve
+    invariant(
+      typeof blockTimestamp !== 'undefined' &&
+        typeof cumulativeRisky !== 'undefined' &&
+        typeof cumulativeStable !== 'undefined' &&
+        typeof cumulativeLiquidity !== 'undefined',
+      'Reserve is missing cumulative values'
+    )
+
+    const lastTimestamp = Number(blockTimestamp)
+    const observedAt = typeof timestamp === 'undefined' ? lastTimestamp : timestamp % Oracle.TIMESTAMP_MODULO
+    const deltaTime = Oracle.getDeltaTime(lastTimestamp, observedAt)
+    const accumulate = (cumulative: string, value: string) =>
+      BigNumber.from(cumulative)
+        .add(BigNumber.from(value).mul(deltaTime))
+        .mod(Oracle.CUMULATIVE_MODULO)
+
+    return {
+      timestamp: observedAt,
+      cumulativeRisky: accumulate(cumulativeRisky, reserve.reserveRisky),
+      cumulativeStable: accumulate(cumulativeStable, reserve.reserveStable),
+      cumulativeLiquidity: accumulate(cumulativeLiquidity, reserve.liquidity)
+    }
+  }
+
+  /**
+   * Gets the time-weighted averages of `pool` from the first to the last of `observations`.
+   *
+   * @param pool Pool with the tokens and calibration of the observations.
+   * @param observations Observations in order of time, from {@link Oracle.observe}.
+   *
+   * @throws
+   * Throws if there are less than two observations.
+   * Throws if an observation is at the same timestamp as the previous one.
+   * Throws if the cumulative liquidity did not change, which is the case if the pool had no liquidity.
+   *
+   * @beta
+   */
+  public static consult(pool: Pool, observations: ReserveObservation[]): TwapResult {
+    invariant(observations.length >= 2, 'Not enough observations')
+
+    // sums each interval, so every interval can wrap the uint32 timestamp once
+    let deltaTime = 0
+    let weightedPrice: number | undefined = 0
+    observations.forEach((observation, i) => {
+      if (i === 0) return
+      const previous = observations[i - 1]
+      const delta = Oracle.getDeltaTime(previous.timestamp, observation.timestamp)
+      invariant(delta > 0, `Observation ${i} is at the same timestamp as the previous observation`)
+      deltaTime += delta
+
+      const price = Oracle.getReportedPrice(pool, previous, observation)
+      weightedPrice =
+        typeof weightedPrice === 'undefined' || typeof price === 'undefined' ? undefined : weightedPrice + price * delta
+    })
+
+    const first = observations[0]
+    const last = observations[observations.length - 1]
+    const deltaRisky = Oracle.getDeltaCumulative(first.cumulativeRisky, last.cumulativeRisky)
+    const deltaStable = Oracle.getDeltaCumulative(first.cumulativeStable, last.cumulativeStable)
+    const deltaLiquidity = Oracle.getDeltaCumulative(first.cumulativeLiquidity, last.cumulativeLiquidity)
+    invariant(!deltaLiquidity.isZero(), 'Zero cumulative liquidity')
+
+    const unit = parseWei(1, 18).raw
+    const riskyPerLiquidity = new Wei(deltaRisky.mul(unit).div(deltaLiquidity), pool.risky.decimals)
+    const stablePerLiquidity = new Wei(deltaStable.mul(unit).div(deltaLiquidity), pool.stable.decimals)
+
+    const priceOfRisky =
+      typeof weightedPrice === 'undefined' ? undefined : parseWei(weightedPrice / deltaTime, pool.stable.decimals)
+
+    return {
+      deltaTime,
+      averageRisky: new Wei(deltaRisky.div(deltaTime), pool.risky.decimals),
+      averageStable: new Wei(deltaStable.div(deltaTime), pool.stable.decimals),
+      averageLiquidity: new Wei(deltaLiquidity.div(deltaTime), 18),
+      riskyPerLiquidity,
+      stablePerLiquidity,
+      priceOfRisky
+    }
+  }
+
+  /** Gets the reported price at the average risky reserve per liquidity from `start` to `end`, if it is defined. */
+  private static getReportedPrice(pool: Pool, start: ReserveObservation, end: ReserveObservation): number | undefined {
+    const deltaRisky = Oracle.getDeltaCumulative(start.cumulativeRisky, end.cumulativeRisky)
+    const deltaLiquidity = Oracle.getDeltaCumulative(start.cumulativeLiquidity, end.cumulativeLiquidity)
+    if (deltaLiquidity.isZero() || pool.maturity.raw - end.timestamp <= 0) return undefined
+
+    const riskyPerLiquidity = new Wei(deltaRisky.mul(parseWei(1, 18).raw).div(deltaLiquidity), pool.risky.decimals)
+    const tauYears = pool.maturity.sub(end.timestamp).years
+    const price = Swaps.getReportedPriceOfRisky(riskyPerLiquidity.float, pool.strike.float, pool.sigma.float, tauYears)
+    return !isNaN(price) && isFinite(price) ? price : undefined
+  }
+
+  /** Gets the seconds from `start` to `end`, modulo 2^32 like the uint32 subtraction of the Engine. */
+  private static getDeltaTime(start: number, end: number): number {
+    return (((end - start) % Oracle.TIMESTAMP_MODULO) + Oracle.TIMESTAMP_MODULO) % Oracle.TIMESTAMP_MODULO
+  }
+
+  /** Gets the difference from `start` to `end`, modulo 2^256 like the unchecked uint256 math of the Engine. */
+  private static getDeltaCumulative(start: BigNumber, end: BigNumber): BigNumber {
+    return end
+      .sub(start)
+      .add(Oracle.CUMULATIVE_MODULO)
+      .mod(Oracle.CUMULATIVE_MODULO)
+  }
+}
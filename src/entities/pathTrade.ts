@@ -0,0 +1,96 @@
+import invariant from 'tiny-invariant'
+import { Token } from '@uniswap/sdk-core'
+import { Wei } from 'web3-units'
+
+import { Pool } from './pool'
+import { Trade } from './trade'
+
+/**
+ * Swap through a path of pools which share a token with the next pool, e.g. A/B and B/C to swap A for C.
+ *
+ * @remarks
+ * Each hop is a {@link Trade} which pays the output of the previous hop.
+ *
+ * @beta
+ */
+export class PathTrade {
+  /** Trades of each hop, in order of execution. */
+  public readonly hops: Trade[]
+
+  /**
+   * Gets a trade through `pools` which pays an exact amount of `tokenIn`.
+   *
+   * @param pools Pools to swap in, in order of execution.
+   * @param tokenIn Token to pay to the first pool.
+   * @param amountIn Amount of `tokenIn` to pay.
+   *
+   * @throws
+   * Throws if `pools` is empty.
+   * Throws if a pool does not involve the output token of the previous pool.
+   * Throws if a hop would be reverted by the Engine.
+   *
+   * @beta
+   */
+  public static exactIn(pools: Pool[], tokenIn: Token, amountIn: Wei): PathTrade {
+    invariant(pools.length > 0, 'No pools')
+
+    let hops: Trade[] = []
+    let token = tokenIn
+    let amount = amountIn
+    pools.forEach(pool => {
+      invariant(pool.involvesToken(token), `Token is not in pair: ${token.address}`)
+      const hop = Trade.exactIn(pool, token, amount)
+      hops.push(hop)
+      token = hop.outputToken
+      amount = hop.outputAmount
+    })
+
+    return new PathTrade(hops)
+  }
+
+  /**
+   * @throws
+   * Throws if `hops` is empty.
+   * Throws if a hop does not pay the exact output of the previous hop.
+   */
+  constructor(hops: Trade[]) {
+    invariant(hops.length > 0, 'No hops')
+    hops.forEach((hop, i) => {
+      if (i === 0) return
+      const previous = hops[i - 1]
+      invariant(hop.inputToken.equals(previous.outputToken), `Hop ${i} input token is not the previous output token`)
+      invariant(hop.inputAmount.raw.eq(previous.outputAmount.raw), `Hop ${i} input is not the previous output`)
+    })
+    this.hops = hops
+  }
+
+  /** Tokens of the path, from the input token to the output token. */
+  get path(): Token[] {
+    return [this.hops[0].inputToken, ...this.hops.map(hop => hop.outputToken)]
+  }
+
+  /** Pools of each hop, in order of execution. */
+  get pools(): Pool[] {
+    return this.hops.map(hop => hop.pool)
+  }
+
+  /** Token paid to the first pool. */
+  get inputToken(): Token {
+    return this.hops[0].inputToken
+  }
+
+  /** Token received from the last pool. */
+  get outputToken(): Token {
+    return this.hops[this.hops.length - 1].outputToken
+  }
+
+  /** Amount of `inputToken` paid to the first pool. */
+  get inputAmount(): Wei {
+    return this.hops[0].inputAmount
+  }
+
+  /** Amount of `outputToken` received from the last pool. */
+  get outputAmount(): Wei {
+    return this.hops[this.hops.length - 1].outputAmount
+  }
+}
@@ -1,13 +1,16 @@
 import { BigNumber } from '@ethersproject/bignumber'
 import invariant from 'tiny-invariant'
 import { Token } from '@uniswap/sdk-core'
-import { callDelta, callPremium } from '@primitivefi/rmm-math'
+import { callDelta, callPremium, getD1AndD2, std_n_cdf, std_n_pdf } from '@primitivefi/rmm-math'
 import { FixedPointX64, parseFixedPointX64, parseWei, Percentage, Time, Wei } from 'web3-units'
 
 import { Calibration } from './calibration'
 import { PoolInterface } from './interfaces'
 import { Swaps, ExactInResult, ExactOutResult } from './swaps'
-import { weiToWei } from '../utils'
+import { SwapsX64, ExactInResultX64, ExactOutResultX64 } from './swapsX64'
+import { Engine } from './engine'
+import { ReplicationMath } from './replicationMath'
+import { validateDecimals, weiToWei } from '../utils'
 
 /**
  * Enum for each side of the pool, inclusive of liquidity token.
@@ -20,6 +23,86 @@ export enum PoolSides {
   RMM_LP = 'RMM_LP'
 }
 
+/**
+ * Sensitivities of the covered call replicated by one unit of liquidity, using a zero risk-free rate.
+ *
+ * @remarks
+ * Each unit of liquidity holds `1 - N(d1)` risky tokens and `K * N(d2)` stable tokens,
+ * so its value is the price of the risky token minus the premium of a call option.
+ *
+ * @beta
+ */
+export interface Greeks {
+  /** Change in value per 1 stable token change in the price of the risky token, in units of the risky token. */
+  delta: number
+
+  /** Change in `delta` per 1 stable token change in the price of the risky token, in units of the risky token. */
+  gamma: number
+
+  /** Change in value per 1% change in implied volatility, in units of the stable token. */
+  vega: number
+
+  /** Change in value per day passed, in units of the stable token. */
+  theta: number
+
+  /** Change in value per 1% change in the risk-free rate, in units of the stable token. */
+  rho: number
+}
+
+/**
+ * {@link Greeks} of an amount of liquidity.
+ *
+ * @remarks
+ * `delta` and `gamma` have the decimals of the risky token, all others have the decimals of the stable token.
+ *
+ * @beta
+ */
+export interface LiquidityGreeks {
+  delta: Wei
+  gamma: Wei
+  vega: Wei
+  theta: Wei
+  rho: Wei
+}
+
+/**
+ * Swap which moves the reported price of the risky token of a pool to a target price.
+ *
+ * @beta
+ */
+export interface SwapToPriceResult {
+  /** True if risky tokens are paid to receive stable tokens. */
+  riskyForStable: boolean
+
+  /** Amount of tokens paid, including the fee. */
+  input: Wei
+
+  /** Amount of tokens received. */
+  output: Wei
+
+  /** Amount of the input paid as a fee to liquidity providers, as computed by the Engine using `gamma`. */
+  fee: Wei
+
+  /** Reported price of the risky token after the swap, denominated in the stable token. */
+  priceAfter: Wei | undefined
+
+  /** Pool after the swap, computed with {@link Pool.applySwap}. */
+  poolAfter: Pool
+}
+
+/**
+ * Serialized pool, which is a {@link PoolInterface} with the reference price of the risky token.
+ *
+ * @remarks
+ * Every amount is an integer string of its raw value, so a pool can be reconstructed exactly.
+ *
+ * @beta
+ */
+export interface PoolJSON extends PoolInterface {
+  /** Raw value of the {@link IPool.referencePriceOfRisky}, with the stable token's decimals. */
+  referencePriceOfRisky?: string
+}
+
 /**
  * Abstraction of a Primitive RMM Pool
  *
@@ -69,6 +152,52 @@ export interface IPool {
   /** Theoretical call option premium, computed using the pool's calibration data. */
   premium: number
 
+  /**
+   * Greeks of the covered call replicated by one unit of liquidity, computed using the pool's calibration data.
+   *
+   * @remarks
+   * Uses the `referencePriceOfRisky`, or the `reportedPriceOfRisky` if it is undefined.
+   */
+  greeks: Greeks | undefined
+
+  /**
+   * Gets the {@link Greeks} of an amount of liquidity, denominated in token amounts.
+   *
+   * @param liquidity Amount of liquidity, with 18 decimals.
+   *
+   * @beta
+   */
+  greeksOf(liquidity: Wei): LiquidityGreeks | undefined
+
+  /**
+   * Gets a copy of this pool with the theoretical reserves of its curve at `timestamp`.
+   *
+   * @remarks
+   * Assumes arbitrageurs rebalance the pool to `spot`, so the reserves are on the curve at `spot`
+   * with an invariant of 0, and any fees accrued by the pool are ignored. The liquidity is kept as is.
+   * Used to project the value and greeks of liquidity towards `maturity`.
+   *
+   * @param timestamp Timestamp in seconds of the projected curve, which becomes the `lastTimestamp`.
+   * @param spot Price of the risky token at `timestamp`, defaults to the reference or reported price.
+   *
+   * @beta
+   */
+  atTimestamp(timestamp: Time, spot?: number): Pool
+
+  /**
+   * Gets the implied volatility the reserves of the pool are pricing at, given an external price of the risky token.
+   *
+   * @remarks
+   * A sigma above the pool's calibrated sigma means the pool prices the covered call richer than its calibration.
+   *
+   * @param spot Price of the risky token denominated in the stable token.
+   *
+   * @returns Sigma as a floating point number in decimal format, e.g. 1 is 100%.
+   *
+   * @beta
+   */
+  impliedVolatility(spot: number): number
+
   /**
    * Computes other side(s) of pool and/or liquidity amount, given a known size of one side of the pool.
    *
@@ -82,6 +211,20 @@ export interface IPool {
    */
   liquidityQuote(amount: Wei, sideOfPool: PoolSides): { delRisky: Wei; delStable: Wei; delLiquidity: Wei }
 
+  /**
+   * Gets the largest allocation of at most `maxRisky` and `maxStable`, matched to the reserves.
+   *
+   * @remarks
+   * The side with less liquidity per token is allocated entirely, and the other side is allocated up to the same
+   * liquidity, rounded up. The liquidity is the amount minted by `PrimitiveEngine.allocate` for these amounts.
+   *
+   * @param maxRisky Maximum amount of risky tokens to allocate.
+   * @param maxStable Maximum amount of stable tokens to allocate.
+   *
+   * @beta
+   */
+  allocationQuote(maxRisky: Wei, maxStable: Wei): { delRisky: Wei; delStable: Wei; delLiquidity: Wei }
+
   /**
    * Gets the current value of the pool denominated in units of `priceOfRisky`.
    *
@@ -109,6 +252,89 @@ export interface IPool {
   /** Gets stored reference price of {@link IEngine.risky}, denominated in {@link IEngine.stable}. */
   referencePriceOfRisky: Wei
 
+  /**
+   * Gets the swap which moves the {@link IPool.reportedPriceOfRisky} to `targetPrice`.
+   *
+   * @remarks
+   * Useful to arbitrage the pool to the `referencePriceOfRisky` or an external price.
+   * The swap is quoted at the {@link IPool.lastTimestamp} of this pool, using the Engine's integer math.
+   *
+   * @param targetPrice Price of the risky token denominated in the stable token, with the stable token's decimals.
+   *
+   * @beta
+   */
+  swapToPrice(targetPrice: Wei): SwapToPriceResult
+
+  /**
+   * Gets the {@link PoolInterface} of this pool, the inverse of {@link Pool.from}.
+   *
+   * @remarks
+   * Amounts are the raw integer strings of their values, including the Q64.64 `invariant`.
+   *
+   * @beta
+   */
+  toPoolInterface(): PoolInterface
+
+  /**
+   * Gets the serialized pool, used by `JSON.stringify`. Use {@link Pool.fromJSON} to reconstruct it.
+   *
+   * @beta
+   */
+  toJSON(): PoolJSON
+
+  /**
+   * Gets the pool after a swap, as executed by `PrimitiveEngine.swap`.
+   *
+   * @remarks
+   * The `lastTimestamp` of the returned pool is updated to `timestamp`, capped at the `maturity` timestamp.
+   *
+   * @param riskyForStable True if the risky token is paid to receive the stable token.
+   * @param deltaIn Amount of tokens paid, including the fee.
+   * @param deltaOut Amount of tokens received.
+   * @param timestamp Timestamp of the swap in seconds, defaults to `lastTimestamp`.
+   *
+   * @beta
+   */
+  applySwap(riskyForStable: boolean, deltaIn: Wei, deltaOut: Wei, timestamp?: Time): Pool
+
+  /**
+   * Gets the pool after an allocation of tokens, as executed by `PrimitiveEngine.allocate`.
+   *
+   * @remarks
+   * The Engine does not update the `lastTimestamp` of a pool when allocating, so it is kept as is.
+   *
+   * @param delRisky Amount of risky tokens to add to the reserves.
+   * @param delStable Amount of stable tokens to add to the reserves.
+   * @param timestamp Timestamp of the allocation in seconds, defaults to `lastTimestamp`.
+   *
+   * @beta
+   */
+  applyAllocate(delRisky: Wei, delStable: Wei, timestamp?: Time): Pool
+
+  /**
+   * Gets the pool after liquidity is removed, as executed by `PrimitiveEngine.remove`.
+   *
+   * @remarks
+   * The Engine does not update the `lastTimestamp` of a pool when removing, so it is kept as is.
+   *
+   * @param delLiquidity Amount of liquidity to burn.
+   *
+   * @beta
+   */
+  applyRemove(delLiquidity: Wei): Pool
+
+  /**
+   * Gets the pool after `PrimitiveEngine.updateLastTimestamp`, which is also called by every swap.
+   *
+   * @remarks
+   * The `lastTimestamp` of the returned pool is `timestamp`, capped at the `maturity` timestamp.
+   *
+   * @param timestamp Timestamp of the update in seconds.
+   *
+   * @beta
+   */
+  applyUpdateLastTimestamp(timestamp: Time): Pool
+
   /**
    * Gets amountIn of opposite token, given output amount of the other token.
    *
@@ -120,13 +346,59 @@ export interface IPool {
    */
   amountIn(tokenOut: Token, amountOut: number): ExactOutResult
 
+  /**
+   * Gets amountIn of opposite token, given output amount of the other token, using the Engine's integer math.
+   *
+   * @remarks
+   * Same as {@link IPool.amountInX64}, selected by passing `amountOut` as a `Wei`.
+   *
+   * @beta
+   */
+  amountIn(tokenOut: Token, amountOut: Wei): ExactOutResultX64
+
   /**
    * Gets amountOut of opposite token, given input amount of the other token.
    *
+   * @remarks
+   * The floating point output can be larger than the output accepted by `PrimitiveEngine.swap`,
+   * pass `amountIn` as a `Wei` to quote with the Engine's integer math instead.
+   *
    * @alpha
    */
   amountOut(tokenIn: Token, amountIn: number): ExactInResult
 
+  /**
+   * Gets amountOut of opposite token, given input amount of the other token, using the Engine's integer math.
+   *
+   * @remarks
+   * Same as {@link IPool.amountOutX64}, selected by passing `amountIn` as a `Wei`.
+   *
+   * @beta
+   */
+  amountOut(tokenIn: Token, amountIn: Wei): ExactInResultX64
+
+  /**
+   * Gets amountIn of opposite token, given output amount of the other token, using the Engine's integer math.
+   *
+   * @remarks
+   * Input amount is the smallest amount accepted by `PrimitiveEngine.swap`,
+   * if the swap is executed at the {@link IPool.lastTimestamp} of this pool.
+   *
+   * @beta
+   */
+  amountInX64(tokenOut: Token, amountOut: Wei): ExactOutResultX64
+
+  /**
+   * Gets amountOut of opposite token, given input amount of the other token, using the Engine's integer math.
+   *
+   * @remarks
+   * Output amount is the largest amount accepted by `PrimitiveEngine.swap`,
+   * if the swap is executed at the {@link IPool.lastTimestamp} of this pool.
+   *
+   * @beta
+   */
+  amountOutX64(tokenIn: Token, amountIn: Wei): ExactInResultX64
+
   /**
    * Gets the marginal price of `tokenIn` after a given amount in has been added to the respective reserve.
    *
@@ -312,6 +584,62 @@ export class Pool extends Calibration {
     this._referencePriceOfRisky = referencePriceOfRisky ? parseWei(referencePriceOfRisky, token1.decimals) : undefined
   }
 
+  // --- Serialization ---
+
+  /**
+   * Constructs a Pool entity from the serialized pool returned by {@link Pool.toJSON}.
+   *
+   * @remarks
+   * The `poolId`, reserves, invariant, `lastTimestamp` and `referencePriceOfRisky` are identical to the serialized pool.
+   *
+   * @param json Serialized pool, or its JSON string.
+   *
+   * @throws
+   * Throws if `json` is a string which is not valid JSON.
+   *
+   * @beta
+   */
+  public static fromJSON(json: string | PoolJSON): Pool {
+    const data: PoolJSON = typeof json === 'string' ? JSON.parse(json) : json
+    const pool = Pool.from(data)
+    if (typeof data.referencePriceOfRisky !== 'undefined') {
+      pool.referencePriceOfRisky = new Wei(BigNumber.from(data.referencePriceOfRisky), pool.stable.decimals)
+    }
+    return pool
+  }
+
+  /** {@inheritdoc IPool.toPoolInterface} */
+  toPoolInterface(): PoolInterface {
+    return {
+      properties: {
+        chainId: this.chainId.toString(),
+        factory: this.factory,
+        riskyName: this.risky.name,
+        riskyAddress: this.risky.address,
+        riskySymbol: this.risky.symbol,
+        riskyDecimals: this.risky.decimals.toString(),
+        stableName: this.stable.name,
+        stableAddress: this.stable.address,
+        stableSymbol: this.stable.symbol,
+        stableDecimals: this.stable.decimals.toString(),
+        invariant: this.invariant.raw.toString(),
+        strike: this.strike.raw.toString(),
+        sigma: this.sigma.raw.toString(),
+        maturity: this.maturity.raw.toString(),
+        lastTimestamp: this.lastTimestamp.raw.toString(),
+        gamma: this.gamma.raw.toString(),
+        reserveRisky: this.reserveRisky.raw.toString(),
+        reserveStable: this.reserveStable.raw.toString(),
+        liquidity: this.liquidity.raw.toString()
+      }
+    }
+  }
+
+  /** {@inheritdoc IPool.toJSON} */
+  toJSON(): PoolJSON {
+    return { ...this.toPoolInterface(), referencePriceOfRisky: this.referencePriceOfRisky?.raw.toString() }
+  }
+
   // --- Curve Info ---
 
   /** {@inheritdoc IPool.tau} */
@@ -345,12 +673,453 @@ export class Pool extends Calibration {
       : undefined
   }
 
+  /** {@inheritdoc IPool.greeks} */
+  get greeks(): Greeks | undefined {
+    const priceOfRisky = this.referencePriceOfRisky ?? this.reportedPriceOfRisky
+    if (!priceOfRisky || this.tau.raw <= 0) return undefined
+    return Pool.getGreeks(this.strike.float, this.sigma.float, this.tau.years, priceOfRisky.float)
+  }
+
+  /**
+   * {@inheritdoc IPool.greeksOf}
+   *
+   * @throws
+   * Throws if `liquidity` does not have 18 decimals.
+   */
+  greeksOf(liquidity: Wei): LiquidityGreeks | undefined {
+    invariant(liquidity.decimals === 18, `Liquidity decimals must be 18: ${liquidity.decimals}`)
+    const greeks = this.greeks
+    if (!greeks) return undefined
+
+    const scale = (value: number, decimals: number) =>
+      parseWei(value.toFixed(decimals), decimals)
+        .mul(liquidity)
+        .div(parseWei(1, liquidity.decimals))
+
+    return {
+      delta: scale(greeks.delta, this.risky.decimals),
+      gamma: scale(greeks.gamma, this.risky.decimals),
+      vega: scale(greeks.vega, this.stable.decimals),
+      theta: scale(greeks.theta, this.stable.decimals),
+      rho: scale(greeks.rho, this.stable.decimals)
+    }
+  }
+
+  /**
+   * Gets the Greeks of the covered call replicated by one unit of liquidity.
+   *
+   * @param strikeFloating Strike price as a floating point number in decimal format.
+   * @param sigmaFloating Implied volatility as a floating point number in decimal format.
+   * @param tauYears Time until expiry in years.
+   * @param spot Price of the risky token, denominated in the stable token.
+   *
+   * @beta
+   */
+  public static getGreeks(strikeFloating: number, sigmaFloating: number, tauYears: number, spot: number): Greeks {
+    invariant(tauYears > 0, `Tau must be greater than zero: ${tauYears}`)
+    invariant(spot > 0, `Spot price must be greater than zero: ${spot}`)
+
+    const { d1, d2 } = getD1AndD2(strikeFloating, sigmaFloating, tauYears, spot)
+    const sqrtTau = Math.sqrt(tauYears)
+    const pdf = std_n_pdf(d1)
+    const daysPerYear = Time.YearInSeconds / 86400
+
+    return {
+      delta: 1 - std_n_cdf(d1),
+      gamma: -pdf / (spot * sigmaFloating * sqrtTau),
+      vega: (-spot * pdf * sqrtTau) / 100,
+      theta: (spot * pdf * sigmaFloating) / (2 * sqrtTau) / daysPerYear,
+      rho: (-strikeFloating * tauYears * std_n_cdf(d2)) / 100
+    }
+  }
+
   /** {@inheritdoc IPool.inTheMoney} */
   get inTheMoney(): boolean | undefined {
     const priceOfRisky = this.referencePriceOfRisky ?? this.reportedPriceOfRisky
     return priceOfRisky ? priceOfRisky.float >= this.strike.float : undefined
   }
 
+  /**
+   * {@inheritdoc IPool.atTimestamp}
+   *
+   * @throws
+   * Throws if `timestamp` is not before `maturity`, since the curve has no theoretical reserves at expiry.
+   * Throws if `spot` is not defined and this pool has no reference or reported price.
+   * Throws if `spot` is not a positive number, or the reserves at `spot` are at an edge of the curve.
+   */
+  atTimestamp(timestamp: Time, spot?: number): Pool {
+    invariant(timestamp.raw < this.maturity.raw, `Timestamp is not before maturity: ${timestamp.raw}`)
+    const priceOfRisky = spot ?? (this.referencePriceOfRisky ?? this.reportedPriceOfRisky)?.float
+    invariant(typeof priceOfRisky !== 'undefined', 'Price of risky is undefined')
+    invariant(priceOfRisky > 0 && isFinite(priceOfRisky), `Spot price must be greater than zero: ${priceOfRisky}`)
+
+    const strike = this.strike.float
+    const sigma = this.sigma.float
+    const tau = this.maturity.sub(timestamp).years
+    const riskyPerLiquidity = Swaps.getRiskyReservesGivenReferencePrice(strike, sigma, tau, priceOfRisky)
+    const stablePerLiquidity = Swaps.getStableGivenRisky(strike, sigma, tau, riskyPerLiquidity)
+    invariant(
+      riskyPerLiquidity > 0 && riskyPerLiquidity < 1 && typeof stablePerLiquidity !== 'undefined',
+      `Reserves are at the edge of the curve at spot: ${priceOfRisky}`
+    )
+
+    const toReserve = (perLiquidity: number, decimals: number) =>
+      parseWei(perLiquidity.toFixed(decimals), decimals)
+        .mul(this.liquidity)
+        .div(parseWei(1, 18))
+    const pool = this.withState(
+      toReserve(riskyPerLiquidity, this.risky.decimals),
+      toReserve(stablePerLiquidity, this.stable.decimals),
+      this.liquidity,
+      timestamp
+    )
+    pool.referencePriceOfRisky = parseWei(priceOfRisky, this.stable.decimals)
+    return pool
+  }
+
+  /**
+   * {@inheritdoc IPool.impliedVolatility}
+   *
+   * @remarks
+   * Solved by bisection over {@link Swaps.getRiskyReservesGivenReferencePrice}, within the sigma bounds of a calibration.
+   * If `spot` is above the strike, the risky reserve first increases then decreases with sigma,
+   * so a reserve can be implied by two sigmas. The solution is the one where the reserve decreases with sigma,
+   * which is above `sqrt(2 * ln(spot / strike) / tau)`.
+   *
+   * @throws
+   * Throws if `spot` is not a positive number.
+   * Throws if the pool is expired at `lastTimestamp` or has zero liquidity.
+   * Throws if the risky reserve per liquidity is at an edge of the curve, zero or one.
+   * Throws if no sigma within the bounds of a calibration implies the risky reserve, which is likely close to expiry.
+   */
+  impliedVolatility(spot: number): number {
+    invariant(spot > 0 && isFinite(spot), `Spot price must be greater than zero: ${spot}`)
+    invariant(this.tau.raw > 0, 'Pool is expired')
+    invariant(this.liquidity.gt(0), 'Zero liquidity')
+
+    const riskyPerLiquidity = this.reserveRisky.float / this.liquidity.float
+    invariant(
+      riskyPerLiquidity > 0 && riskyPerLiquidity < 1,
+      `Risky reserve is at the edge of the curve: ${riskyPerLiquidity}`
+    )
+
+    const strike = this.strike.float
+    const tau = this.tau.years
+    const riskyGivenSigma = (sigma: number) => Swaps.getRiskyReservesGivenReferencePrice(strike, sigma, tau, spot)
+
+    // sigma which minimizes d1, below which the risky reserve increases with sigma
+    const moneyness = Math.log(spot / strike)
+    let lower = Math.max(Calibration.MIN_SIGMA / Percentage.BasisPoints, Math.sqrt((2 * Math.max(moneyness, 0)) / tau))
+    let upper = Calibration.MAX_SIGMA / Percentage.BasisPoints
+    invariant(lower < upper, `Implied volatility is above the maximum sigma: ${lower}`)
+
+    const riskyLower = riskyGivenSigma(lower)
+    const riskyUpper = riskyGivenSigma(upper)
+    invariant(
+      riskyPerLiquidity <= riskyLower && riskyPerLiquidity >= riskyUpper,
+      `Implied volatility is out of range, risky reserve ${riskyPerLiquidity} is not within [${riskyUpper}, ${riskyLower}]`
+    )
+
+    // bisects until the bounds are adjacent floating point numbers
+    for (let i = 0; i < 128; i++) {
+      const sigma = (lower + upper) / 2
+      if (sigma === lower || sigma === upper) break
+      if (riskyGivenSigma(sigma) > riskyPerLiquidity) lower = sigma
+      else upper = sigma
+    }
+
+    return (lower + upper) / 2
+  }
+
+  // --- State Transitions ---
+
+  /**
+   * Gets a pool created by `PrimitiveEngine.create`, with the same reserves as the smart contract computes.
+   *
+   * @param chainId Chain id of the tokens.
+   * @param factory Deployer of the Engine.
+   * @param risky Risky token.
+   * @param stable Stable token.
+   * @param calibration Calibration of the pool, with `lastTimestamp` as the timestamp of the creation.
+   * @param riskyPerLp Amount of risky tokens per 1e18 liquidity, with the risky token's decimals.
+   * @param delLiquidity Amount of liquidity to mint, including the burned min liquidity.
+   *
+   * @throws
+   * Throws if `riskyPerLp` is zero or greater than one risky token.
+   * Throws if `delLiquidity` is not greater than the min liquidity.
+   * Throws if the pool is expired at `lastTimestamp`.
+   * Throws if either computed reserve is zero.
+   *
+   * @beta
+   */
+  public static applyCreate(
+    chainId: number,
+    factory: string,
+    risky: { address: string; decimals: string | number; name?: string; symbol?: string },
+    stable: { address: string; decimals: string | number; name?: string; symbol?: string },
+    calibration: { strike: string; sigma: string; maturity: string; gamma: string; lastTimestamp?: string },
+    riskyPerLp: Wei,
+    delLiquidity: Wei
+  ): Pool {
+    const lastTimestamp = calibration.lastTimestamp ? new Time(Number(calibration.lastTimestamp)) : new Time(Time.now)
+    const created = new Pool(
+      chainId,
+      factory,
+      risky,
+      stable,
+      { ...calibration, lastTimestamp: lastTimestamp.raw.toString() },
+      { reserveRisky: '0', reserveStable: '0', liquidity: '0' }
+    )
+
+    validateDecimals(riskyPerLp, created.risky)
+    invariant(riskyPerLp.gt(0), `Risky per liquidity must be greater than zero: ${riskyPerLp.toString()}`)
+    invariant(
+      riskyPerLp.lte(parseWei(1, riskyPerLp.decimals)),
+      `Risky per liquidity cannot be greater than one risky token: ${riskyPerLp.toString()}`
+    )
+    invariant(
+      delLiquidity.gt(created.MIN_LIQUIDITY),
+      `Liquidity must be greater than min liquidity: ${delLiquidity.toString()}`
+    )
+    invariant(lastTimestamp.lte(created.maturity), `Pool is expired at timestamp: ${lastTimestamp.raw}`)
+
+    const stablePerLp = ReplicationMath.getStableGivenRisky(
+      BigNumber.from(0),
+      created.scaleFactorRisky.raw,
+      created.scaleFactorStable.raw,
+      riskyPerLp.raw,
+      created.strike.raw,
+      created.sigma.raw,
+      created.tau.raw
+    )
+    const delRisky = riskyPerLp.raw.mul(delLiquidity.raw).div(ReplicationMath.PRECISION)
+    const delStable = stablePerLp.mul(delLiquidity.raw).div(ReplicationMath.PRECISION)
+    invariant(delRisky.gt(0) && delStable.gt(0), `Calibration error: ${delRisky.toString()}, ${delStable.toString()}`)
+
+    return created.withState(
+      new Wei(delRisky, created.risky.decimals),
+      new Wei(delStable, created.stable.decimals),
+      delLiquidity,
+      lastTimestamp
+    )
+  }
+
+  /**
+   * {@inheritdoc IPool.applySwap}
+   *
+   * @throws
+   * Throws if either delta is zero or its decimals do not match the respective token.
+   * Throws if `timestamp` is past the `maturity` timestamp plus the {@link Engine.BUFFER}.
+   * Throws if `deltaOut` exceeds the reserves.
+   * Throws if the invariant decreases after the swap.
+   */
+  applySwap(riskyForStable: boolean, deltaIn: Wei, deltaOut: Wei, timestamp: Time = this.lastTimestamp): Pool {
+    validateDecimals(deltaIn, riskyForStable ? this.risky : this.stable)
+    validateDecimals(deltaOut, riskyForStable ? this.stable : this.risky)
+    invariant(deltaIn.gt(0), `Delta in must be greater than zero: ${deltaIn.toString()}`)
+    invariant(deltaOut.gt(0), `Delta out must be greater than zero: ${deltaOut.toString()}`)
+    invariant(timestamp.lte(this.maturity.add(Engine.BUFFER)), `Pool is expired at timestamp: ${timestamp.raw}`)
+
+    const lastTimestamp = timestamp.gt(this.maturity) ? this.maturity : timestamp
+    const tau = this.maturity.sub(lastTimestamp)
+    const reserveOut = riskyForStable ? this.reserveStable : this.reserveRisky
+    invariant(deltaOut.lt(reserveOut), `Delta out exceeds reserves: ${deltaOut.toString()}`)
+
+    const args = [
+      this.risky.decimals,
+      this.stable.decimals,
+      this.reserveRisky,
+      this.reserveStable,
+      this.liquidity,
+      this.strike,
+      this.sigma
+    ] as const
+    const invariantLast = SwapsX64.invariantOf(...args, tau)
+    const invariantAfter = SwapsX64.getInvariantAfterSwap(riskyForStable, deltaIn, deltaOut, ...args, this.gamma, tau)
+    invariant(
+      invariantAfter.raw.gte(invariantLast.raw),
+      `Invariant decreased by: ${invariantLast.raw.sub(invariantAfter.raw).toString()}`
+    )
+
+    return this.withState(
+      riskyForStable ? this.reserveRisky.add(deltaIn) : this.reserveRisky.sub(deltaOut),
+      riskyForStable ? this.reserveStable.sub(deltaOut) : this.reserveStable.add(deltaIn),
+      this.liquidity,
+      lastTimestamp
+    )
+  }
+
+  /**
+   * {@inheritdoc IPool.applyAllocate}
+   *
+   * @throws
+   * Throws if either amount is zero or its decimals do not match the respective token.
+   * Throws if `timestamp` is past the `maturity` timestamp.
+   * Throws if the amount of liquidity minted is zero.
+   */
+  applyAllocate(delRisky: Wei, delStable: Wei, timestamp: Time = this.lastTimestamp): Pool {
+    validateDecimals(delRisky, this.risky)
+    validateDecimals(delStable, this.stable)
+    invariant(delRisky.gt(0) && delStable.gt(0), `Amounts must be greater than zero`)
+    invariant(timestamp.lte(this.maturity), `Pool is expired at timestamp: ${timestamp.raw}`)
+
+    const liquidity0 = delRisky.mul(this.liquidity).div(this.reserveRisky)
+    const liquidity1 = delStable.mul(this.liquidity).div(this.reserveStable)
+    const delLiquidity = new Wei(liquidity0.lt(liquidity1) ? liquidity0.raw : liquidity1.raw, this.liquidity.decimals)
+    invariant(delLiquidity.gt(0), `Liquidity minted must be greater than zero`)
+
+    return this.withState(
+      this.reserveRisky.add(delRisky),
+      this.reserveStable.add(delStable),
+      this.liquidity.add(delLiquidity),
+      this.lastTimestamp
+    )
+  }
+
+  /**
+   * {@inheritdoc IPool.applyRemove}
+   *
+   * @throws
+   * Throws if `delLiquidity` is zero or greater than the pool's liquidity.
+   */
+  applyRemove(delLiquidity: Wei): Pool {
+    invariant(delLiquidity.gt(0), `Liquidity must be greater than zero`)
+    invariant(delLiquidity.lte(this.liquidity), `Liquidity exceeds pool liquidity: ${delLiquidity.toString()}`)
+    const { delRisky, delStable } = this.liquidityQuote(delLiquidity, PoolSides.RMM_LP)
+
+    return this.withState(
+      this.reserveRisky.sub(delRisky),
+      this.reserveStable.sub(delStable),
+      this.liquidity.sub(delLiquidity),
+      this.lastTimestamp
+    )
+  }
+
+  /** {@inheritdoc IPool.applyUpdateLastTimestamp} */
+  applyUpdateLastTimestamp(timestamp: Time): Pool {
+    const lastTimestamp = timestamp.gt(this.maturity) ? this.maturity : timestamp
+    return this.withState(this.reserveRisky, this.reserveStable, this.liquidity, lastTimestamp)
+  }
+
+  /**
+   * Gets a copy of this pool with its reserves changed by signed amounts, without the checks of the Engine.
+   *
+   * @remarks
+   * Used to replay events which the Engine already executed, e.g. by {@link PoolStore}.
+   * The checks of the other transitions, e.g. of the invariant and expiry, could fail on a replayed state
+   * which differs from the Engine's by rounding.
+   *
+   * @param delRisky Signed amount of risky tokens to add to the reserves.
+   * @param delStable Signed amount of stable tokens to add to the reserves.
+   * @param delLiquidity Signed amount of liquidity to add.
+   * @param lastTimestamp Timestamp of the pool after the change, defaults to `lastTimestamp`.
+   *
+   * {@internal}
+   */
+  applyDeltas(delRisky: Wei, delStable: Wei, delLiquidity: Wei, lastTimestamp: Time = this.lastTimestamp): Pool {
+    return this.withState(
+      this.reserveRisky.add(delRisky),
+      this.reserveStable.add(delStable),
+      this.liquidity.add(delLiquidity),
+      lastTimestamp
+    )
+  }
+
+  /**
+   * {@inheritdoc IPool.swapToPrice}
+   *
+   * @remarks
+   * The reported price is a function of the risky reserve per liquidity, so the target risky reserve is
+   * the one of the curve at `targetPrice`. The Engine adds the entire input, including the fee, to the reserves.
+   * If paying risky tokens, the input is the difference in risky reserves and the fee reduces the output.
+   * If paying stable tokens, the output is the difference in risky reserves and the fee increases the input.
+   *
+   * @throws
+   * Throws if `targetPrice.decimals` does not match the stable token decimals, or if it is zero.
+   * Throws if the pool is expired at `lastTimestamp` or has zero liquidity.
+   * Throws if the reported price is already `targetPrice`, up to the precision of the risky token.
+   * Throws if the swap would be reverted by the Engine.
+   */
+  swapToPrice(targetPrice: Wei): SwapToPriceResult {
+    validateDecimals(targetPrice, this.stable)
+    invariant(targetPrice.gt(0), `Target price must be greater than zero: ${targetPrice.toString()}`)
+    invariant(this.tau.raw > 0, 'Pool is expired')
+    invariant(this.liquidity.gt(0), 'Zero liquidity')
+
+    const riskyPerLiquidity = Swaps.getRiskyReservesGivenReferencePrice(
+      this.strike.float,
+      this.sigma.float,
+      this.tau.years,
+      targetPrice.float
+    )
+    invariant(riskyPerLiquidity > 0 && riskyPerLiquidity < 1, `Target price is out of range: ${targetPrice.toString()}`)
+
+    const targetRisky = parseWei(riskyPerLiquidity.toFixed(this.risky.decimals), this.risky.decimals)
+      .mul(this.liquidity)
+      .div(parseWei(1, 18))
+    invariant(!targetRisky.raw.eq(this.reserveRisky.raw), 'Pool is at target price')
+
+    const riskyForStable = targetRisky.gt(this.reserveRisky)
+    let input: Wei
+    let output: Wei
+    if (riskyForStable) {
+      input = targetRisky.sub(this.reserveRisky)
+      output = this.amountOutX64(this.risky, input).output
+    } else {
+      output = this.reserveRisky.sub(targetRisky)
+      input = this.amountInX64(this.risky, output).input
+    }
+
+    const poolAfter = this.applySwap(riskyForStable, input, output)
+    const inputWithFee = input.raw.mul(this.gamma.raw).div(Percentage.BasisPoints)
+    const fee = new Wei(input.raw.sub(inputWithFee), input.decimals)
+    return { riskyForStable, input, output, fee, priceAfter: poolAfter.reportedPriceOfRisky, poolAfter }
+  }
+
+  /**
+   * Gets a copy of this pool with new reserves and `lastTimestamp`, computing its invariant like `PrimitiveEngine.invariantOf`.
+   *
+   * {@internal}
+   */
+  private withState(reserveRisky: Wei, reserveStable: Wei, liquidity: Wei, lastTimestamp: Time): Pool {
+    const tau = this.maturity.sub(lastTimestamp)
+    const invariantX64 = liquidity.gt(0)
+      ? SwapsX64.invariantOf(
+          this.risky.decimals,
+          this.stable.decimals,
+          reserveRisky,
+          reserveStable,
+          liquidity,
+          this.strike,
+          this.sigma,
+          tau
+        )
+      : parseFixedPointX64(0, this.stable.decimals)
+
+    const token = (t: Token) => ({ address: t.address, decimals: t.decimals, name: t.name, symbol: t.symbol })
+    const pool = new Pool(
+      this.chainId,
+      this.factory,
+      token(this.risky),
+      token(this.stable),
+      {
+        strike: this.strike.raw.toString(),
+        sigma: this.sigma.raw.toString(),
+        maturity: this.maturity.raw.toString(),
+        gamma: this.gamma.raw.toString(),
+        lastTimestamp: lastTimestamp.raw.toString()
+      },
+      {
+        reserveRisky: reserveRisky.raw.toString(),
+        reserveStable: reserveStable.raw.toString(),
+        liquidity: liquidity.raw.toString()
+      },
+      invariantX64.raw.toString()
+    )
+    pool.referencePriceOfRisky = this.referencePriceOfRisky
+    return pool
+  }
+
   // --- Liquidity Token Info ---
 
   /**
@@ -367,6 +1136,34 @@ export class Pool extends Calibration {
     return Pool.getLiquidityQuote(amount, sideOfPool, reserveRisky, reserveStable, liquidity, price)
   }
 
+  /**
+   * {@inheritdoc IPool.allocationQuote}
+   *
+   * @throws
+   * Throws if an amount's decimals do not match its token.
+   * Throws if {@link IPool.liquidity} or either reserve is zero.
+   */
+  allocationQuote(maxRisky: Wei, maxStable: Wei): { delRisky: Wei; delStable: Wei; delLiquidity: Wei } {
+    validateDecimals(maxRisky, this.risky)
+    validateDecimals(maxStable, this.stable)
+    const liquidity = this.liquidity.raw
+    const reserveRisky = this.reserveRisky.raw
+    const reserveStable = this.reserveStable.raw
+    invariant(!liquidity.isZero() && !reserveRisky.isZero() && !reserveStable.isZero(), 'Pool has no liquidity')
+
+    const liquidity0 = maxRisky.raw.mul(liquidity).div(reserveRisky)
+    const liquidity1 = maxStable.raw.mul(liquidity).div(reserveStable)
+    const delLiquidity = liquidity0.lt(liquidity1) ? liquidity0 : liquidity1
+
+    const ceilDiv = (amount: BigNumber) => amount.add(liquidity.sub(1)).div(liquidity)
+    const min = (a: BigNumber, b: BigNumber) => (a.lt(b) ? a : b)
+    return {
+      delRisky: new Wei(min(maxRisky.raw, ceilDiv(delLiquidity.mul(reserveRisky))), this.risky.decimals),
+      delStable: new Wei(min(maxStable.raw, ceilDiv(delLiquidity.mul(reserveStable))), this.stable.decimals),
+      delLiquidity: new Wei(delLiquidity, this.liquidity.decimals)
+    }
+  }
+
   /**
    * @notice Calculates the other side of the pool using the known amount of a side of the pool
    * @param amount Amount of token
@@ -511,8 +1308,12 @@ export class Pool extends Calibration {
    *
    * @throws
    * Throws if `tokenOut` is not a token of this {@link IEngine}.
+   * Throws if `amountOut` is a `Wei` and its decimals do not match `tokenOut.decimals`.
    */
-  amountIn(tokenOut: Token, amountOut: number): ExactOutResult {
+  amountIn(tokenOut: Token, amountOut: number): ExactOutResult
+  amountIn(tokenOut: Token, amountOut: Wei): ExactOutResultX64
+  amountIn(tokenOut: Token, amountOut: number | Wei): ExactOutResult | ExactOutResultX64 {
+    if (amountOut instanceof Wei) return this.amountInX64(tokenOut, amountOut)
     const args = [amountOut, ...this.swapArgs] as const
     if (this.risky.equals(tokenOut)) {
       return Swaps.exactRiskyOutput(...args)
@@ -528,8 +1329,12 @@ export class Pool extends Calibration {
    *
    * @throws
    * Throws if `tokenIn` is not a token of this {@link IEngine}.
+   * Throws if `amountIn` is a `Wei` and its decimals do not match `tokenIn.decimals`.
    */
-  amountOut(tokenIn: Token, amountIn: number): ExactInResult {
+  amountOut(tokenIn: Token, amountIn: number): ExactInResult
+  amountOut(tokenIn: Token, amountIn: Wei): ExactInResultX64
+  amountOut(tokenIn: Token, amountIn: number | Wei): ExactInResult | ExactInResultX64 {
+    if (amountIn instanceof Wei) return this.amountOutX64(tokenIn, amountIn)
     const args = [amountIn, ...this.swapArgs] as const
     if (this.risky.equals(tokenIn)) {
       return Swaps.exactRiskyInput(...args)
@@ -540,6 +1345,61 @@ export class Pool extends Calibration {
     }
   }
 
+  /** {@internal} */
+  get swapArgsX64() {
+    const tau = this.tau.raw > 0 ? this.tau : new Time(0) // engine clamps timestamps to maturity
+    const args = [
+      this.risky.decimals,
+      this.stable.decimals,
+      this.reserveRisky,
+      this.reserveStable,
+      this.liquidity,
+      this.strike,
+      this.sigma,
+      this.gamma,
+      tau
+    ] as const
+    return args
+  }
+
+  /**
+   * {@inheritdoc IPool.amountInX64}
+   *
+   * @throws
+   * Throws if `tokenOut` is not a token of this {@link IEngine}.
+   * Throws if `amountOut.decimals` does not match `tokenOut.decimals`.
+   */
+  amountInX64(tokenOut: Token, amountOut: Wei): ExactOutResultX64 {
+    validateDecimals(amountOut, tokenOut)
+    const args = [amountOut, ...this.swapArgsX64] as const
+    if (this.risky.equals(tokenOut)) {
+      return SwapsX64.exactRiskyOutput(...args)
+    } else if (this.stable.equals(tokenOut)) {
+      return SwapsX64.exactStableOutput(...args)
+    } else {
+      throw new Error(`Token is not in pair: ${tokenOut.address}`)
+    }
+  }
+
+  /**
+   * {@inheritdoc IPool.amountOutX64}
+   *
+   * @throws
+   * Throws if `tokenIn` is not a token of this {@link IEngine}.
+   * Throws if `amountIn.decimals` does not match `tokenIn.decimals`.
+   */
+  amountOutX64(tokenIn: Token, amountIn: Wei): ExactInResultX64 {
+    validateDecimals(amountIn, tokenIn)
+    const args = [amountIn, ...this.swapArgsX64] as const
+    if (this.risky.equals(tokenIn)) {
+      return SwapsX64.exactRiskyInput(...args)
+    } else if (this.stable.equals(tokenIn)) {
+      return SwapsX64.exactStableInput(...args)
+    } else {
+      throw new Error(`Token is not in pair: ${tokenIn.address}`)
+    }
+  }
+
   /**
    * {@inheritdoc IPool.derivativeOut}
    *
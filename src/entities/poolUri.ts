@@ -0,0 +1,132 @@
+import invariant from 'tiny-invariant'
+import { decode } from '@ethersproject/base64'
+import { toUtf8String } from '@ethersproject/strings'
+
+import { Pool } from './pool'
+import { PoolInterface } from './interfaces'
+import { validateAndParseAddress } from '../utils'
+
+/** Data decoded from a `PrimitiveManager.uri(id)` call. */
+export interface ParsedPoolUri {
+  /** Parsed and validated JSON of the URI. */
+  poolInterface: PoolInterface
+
+  /** Pool entity constructed from `poolInterface`. */
+  pool: Pool
+
+  /** SVG markup of the `image`, if it is a data URI. */
+  image?: string
+}
+
+/** Properties of a {@link PoolInterface} which must be addresses. */
+const ADDRESS_PROPERTIES = ['factory', 'riskyAddress', 'stableAddress'] as const
+
+/** Properties of a {@link PoolInterface} which must be unsigned integers, as strings or numbers. */
+const INTEGER_PROPERTIES = [
+  'chainId',
+  'riskyDecimals',
+  'stableDecimals',
+  'strike',
+  'sigma',
+  'maturity',
+  'lastTimestamp',
+  'gamma',
+  'reserveRisky',
+  'reserveStable',
+  'liquidity'
+] as const
+
+/**
+ * Decodes the content of a data URI, which is either base64 or UTF-8 encoded.
+ *
+ * @param uri Data URI, e.g. `data:application/json;base64,eyJ...`.
+ *
+ * @returns Decoded content and media type of the URI.
+ *
+ * @throws
+ * Throws if `uri` is not a data URI, or its base64 content is invalid.
+ *
+ * @beta
+ */
+export function decodeDataUri(uri: string): { mediaType: string; content: string } {
+  const match = /^data:([^,]*),([\s\S]*)$/.exec(uri.trim())
+  invariant(match, `Not a data URI: ${uri.substring(0, 32)}`)
+
+  const [mediaType, ...parameters] = match[1].split(';')
+  const data = match[2]
+  if (parameters.some(parameter => parameter.toLowerCase() === 'base64')) {
+    let bytes: Uint8Array
+    try {
+      bytes = decode(data)
+    } catch (error) {
+      throw new Error(`Invalid base64 content in data URI: ${(error as Error).message}`)
+    }
+    return { mediaType, content: toUtf8String(bytes) }
+  }
+
+  // UTF-8 content can be percent-encoded, but JSON can also contain a literal `%`
+  try {
+    return { mediaType, content: decodeURIComponent(data) }
+  } catch (error) {
+    return { mediaType, content: data }
+  }
+}
+
+/**
+ * Parses the return value of `PrimitiveManager.uri(id)` into a {@link PoolInterface} and a {@link Pool}.
+ *
+ * @remarks
+ * Accepts a `data:application/json` URI with base64 or UTF-8 content, or the JSON string itself.
+ * The `image` is decoded if it is a data URI of an SVG.
+ *
+ * @param uri Raw URI string returned by the Manager.
+ * @param referencePrice Optional reference price of the risky token, passed to {@link Pool.from}.
+ *
+ * @throws
+ * Throws if the URI or its JSON cannot be decoded.
+ * Throws if a required property is missing, or is not an address or unsigned integer where one is expected.
+ *
+ * @beta
+ */
+export function parsePoolUri(uri: string, referencePrice?: number): ParsedPoolUri {
+  const json = uri.trim().startsWith('data:') ? decodeDataUri(uri).content : uri
+
+  let poolInterface: PoolInterface
+  try {
+    poolInterface = JSON.parse(json)
+  } catch (error) {
+    throw new Error(`Invalid JSON in pool URI: ${(error as Error).message}`)
+  }
+
+  invariant(typeof poolInterface === 'object' && poolInterface !== null, 'Pool URI JSON must be an object')
+  const { properties } = poolInterface
+  invariant(typeof properties === 'object' && properties !== null, 'Missing pool URI properties')
+
+  ADDRESS_PROPERTIES.forEach(key => {
+    const value = properties[key]
+    invariant(typeof value === 'string', `Missing pool URI property: ${key}`)
+    validateAndParseAddress(value)
+  })
+
+  INTEGER_PROPERTIES.forEach(key => {
+    const value = properties[key]
+    invariant(typeof value !== 'undefined' && value !== null, `Missing pool URI property: ${key}`)
+    invariant(/^\d+$/.test(value.toString()), `Pool URI property ${key} is not an unsigned integer: ${value}`)
+  })
+
+  if (typeof properties.invariant !== 'undefined') {
+    invariant(
+      /^-?\d+$/.test(properties.invariant),
+      `Pool URI property invariant is not an integer: ${properties.invariant}`
+    )
+  }
+
+  let image: string | undefined = undefined
+  if (typeof poolInterface.image === 'string' && poolInterface.image.startsWith('data:')) {
+    const decoded = decodeDataUri(poolInterface.image)
+    invariant(decoded.mediaType === 'image/svg+xml', `Pool URI image is not an SVG: ${decoded.mediaType}`)
+    image = decoded.content
+  }
+
+  return { poolInterface, pool: Pool.from(poolInterface, referencePrice), image }
+}
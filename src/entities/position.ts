@@ -0,0 +1,115 @@
+import invariant from 'tiny-invariant'
+import { parseWei, Wei } from 'web3-units'
+
+import { Pool, PoolSides, LiquidityGreeks } from './pool'
+import { validateDecimals } from '../utils'
+
+/**
+ * Holdings of an account in a pool, which are its liquidity token balance of the Manager and its margin of the Engine.
+ *
+ * @remarks
+ * The Manager keeps the liquidity balance as an ERC-1155 token with the `poolId` as its id,
+ * and the margin per Engine, so the margin is shared by all pools of the same Engine.
+ *
+ * @beta
+ */
+export class Position {
+  /** Pool of the liquidity. */
+  public readonly pool: Pool
+
+  /** Liquidity token balance, with 18 decimals. */
+  public readonly liquidity: Wei
+
+  /** Risky token balance of the margin account, with the risky token's decimals. */
+  public readonly marginRisky: Wei
+
+  /** Stable token balance of the margin account, with the stable token's decimals. */
+  public readonly marginStable: Wei
+
+  /**
+   * @param pool Pool of the liquidity.
+   * @param liquidity Liquidity token balance, with 18 decimals.
+   * @param marginRisky Risky token balance of the margin account, defaults to zero.
+   * @param marginStable Stable token balance of the margin account, defaults to zero.
+   *
+   * @throws
+   * Throws if the decimals of an amount do not match its token, or if an amount is negative.
+   * Throws if `liquidity` is greater than the liquidity of `pool`.
+   */
+  constructor(pool: Pool, liquidity: Wei, marginRisky?: Wei, marginStable?: Wei) {
+    this.pool = pool
+    this.liquidity = liquidity
+    this.marginRisky = marginRisky ?? parseWei(0, pool.risky.decimals)
+    this.marginStable = marginStable ?? parseWei(0, pool.stable.decimals)
+
+    validateDecimals(this.liquidity, pool)
+    validateDecimals(this.marginRisky, pool.risky)
+    validateDecimals(this.marginStable, pool.stable)
+    invariant(
+      !this.liquidity.raw.isNegative() && !this.marginRisky.raw.isNegative() && !this.marginStable.raw.isNegative(),
+      'Amounts cannot be negative'
+    )
+    invariant(this.liquidity.lte(pool.liquidity), `Liquidity exceeds pool liquidity: ${liquidity.toString()}`)
+  }
+
+  /** True if the position has no liquidity and no margin. */
+  get isEmpty(): boolean {
+    return this.liquidity.raw.isZero() && this.marginRisky.raw.isZero() && this.marginStable.raw.isZero()
+  }
+
+  /** Amounts of tokens received by removing the liquidity, like `PrimitiveEngine.remove`. */
+  get underlying(): { delRisky: Wei; delStable: Wei } {
+    if (this.liquidity.raw.isZero()) {
+      return { delRisky: parseWei(0, this.pool.risky.decimals), delStable: parseWei(0, this.pool.stable.decimals) }
+    }
+    const { delRisky, delStable } = this.pool.liquidityQuote(this.liquidity, PoolSides.RMM_LP)
+    return { delRisky, delStable }
+  }
+
+  /** Amount of risky tokens of the liquidity and margin. */
+  get amountRisky(): Wei {
+    return this.underlying.delRisky.add(this.marginRisky)
+  }
+
+  /** Amount of stable tokens of the liquidity and margin. */
+  get amountStable(): Wei {
+    return this.underlying.delStable.add(this.marginStable)
+  }
+
+  /** Fraction of the pool's liquidity owned by this position, between 0 and 1. */
+  get shareOfPool(): number {
+    if (this.pool.liquidity.raw.isZero()) return 0
+    return this.liquidity.float / this.pool.liquidity.float
+  }
+
+  /**
+   * Greeks of the liquidity and margin, denominated in token amounts.
+   *
+   * @remarks
+   * Each risky token of the margin has a delta of one, stable tokens of the margin have no greeks.
+   * Undefined if the pool has no Greeks, e.g. if it is expired.
+   */
+  get greeks(): LiquidityGreeks | undefined {
+    const greeks = this.pool.greeksOf(this.liquidity)
+    if (!greeks) return undefined
+    return { ...greeks, delta: greeks.delta.add(this.marginRisky) }
+  }
+
+  /**
+   * Gets the value of the tokens of the liquidity and margin.
+   *
+   * @param priceOfRisky Price of the risky token.
+   * @param priceOfStable Price of the stable token, defaults to 1 if `priceOfRisky` is denominated in the stable token.
+   *
+   * @returns Value in units of the prices, with 18 decimals.
+   *
+   * @beta
+   */
+  getValue(priceOfRisky: number, priceOfStable: number = 1): Wei {
+    const value = (price: number, amount: Wei) =>
+      parseWei(price, 18)
+        .mul(amount)
+        .div(parseWei(1, amount.decimals))
+    return value(priceOfRisky, this.amountRisky).add(value(priceOfStable, this.amountStable))
+  }
+}
@@ -0,0 +1,161 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber'
+
+import { ABDKMath64x64 } from './abdkMath64x64'
+import { CumulativeNormalDistribution } from './cumulativeNormalDistribution'
+
+/**
+ * Port of the ReplicationMath.sol and Units.sol libraries used by the PrimitiveEngine.sol smart contract.
+ *
+ * @remarks
+ * Scale factors are equal to 10^(18 - token decimals), the same as the Engine's immutable scale factors.
+ * Strike and reserve amounts are unsigned integers in their native token precision.
+ * Computed values are the exact integers the smart contract computes.
+ *
+ * @beta
+ */
+export class ReplicationMath {
+  /** Seconds in a year used by the smart contracts, 365.24219 days. */
+  static readonly YEAR = 31556952
+  /** Precision all amounts are scaled to. */
+  static readonly PRECISION = BigNumber.from(10).pow(18)
+  /** Precision of percentages, 10_000 = 100%. */
+  static readonly PERCENTAGE = 1e4
+
+  // --- Units ---
+
+  /** Converts an unsigned wei value with native precision into a signed 64.64 fixed point number. */
+  public static scaleToX64(value: BigNumberish, scaleFactor: BigNumberish): BigNumber {
+    return ABDKMath64x64.divu(value, ReplicationMath.PRECISION.div(scaleFactor))
+  }
+
+  /** Converts a signed 64.64 fixed point number into an unsigned wei value with native precision. */
+  public static scaleFromX64(value: BigNumber, scaleFactor: BigNumberish): BigNumber {
+    return ABDKMath64x64.mulu(value, ReplicationMath.PRECISION.div(scaleFactor))
+  }
+
+  /** Converts a percentage integer with a precision of 1e4 into a signed 64.64 fixed point number. */
+  public static percentageToX64(denorm: BigNumberish): BigNumber {
+    return ABDKMath64x64.divu(denorm, ReplicationMath.PERCENTAGE)
+  }
+
+  /** Converts seconds into years as a signed 64.64 fixed point number. */
+  public static toYears(seconds: BigNumberish): BigNumber {
+    return ABDKMath64x64.divu(seconds, ReplicationMath.YEAR)
+  }
+
+  // --- Replication Math ---
+
+  /**
+   * Normalizes volatility with respect to the square root of time until expiry.
+   *
+   * @param sigma Implied volatility in basis points.
+   * @param tau Time until expiry in seconds.
+   *
+   * @returns sigma * sqrt(tau) as a signed 64.64 fixed point number.
+   */
+  public static getProportionalVolatility(sigma: BigNumberish, tau: BigNumberish): BigNumber {
+    const sqrtTauX64 = ABDKMath64x64.sqrt(ReplicationMath.toYears(tau))
+    const sigmaX64 = ReplicationMath.percentageToX64(sigma)
+    return ABDKMath64x64.mul(sigmaX64, sqrtTauX64)
+  }
+
+  /**
+   * Gets stable reserves per liquidity given risky reserves per liquidity.
+   *
+   * @param invariantLastX64 Invariant as a signed 64.64 fixed point number, computed with the same `tau`.
+   * @param scaleFactorRisky Scale factor of the risky token, 10^(18 - risky decimals).
+   * @param scaleFactorStable Scale factor of the stable token, 10^(18 - stable decimals).
+   * @param riskyPerLiquidity Risky reserves per 1e18 liquidity, in native risky precision.
+   * @param strike Strike price in native stable precision.
+   * @param sigma Implied volatility in basis points.
+   * @param tau Time until expiry in seconds.
+   *
+   * @returns stablePerLiquidity = K * CDF(CDF^-1(1 - riskyPerLiquidity) - sigma * sqrt(tau)) + invariantLast
+   */
+  public static getStableGivenRisky(
+    invariantLastX64: BigNumber,
+    scaleFactorRisky: BigNumberish,
+    scaleFactorStable: BigNumberish,
+    riskyPerLiquidity: BigNumberish,
+    strike: BigNumberish,
+    sigma: BigNumberish,
+    tau: BigNumberish
+  ): BigNumber {
+    const { add, sub, mul } = ABDKMath64x64
+    const strikeX64 = ReplicationMath.scaleToX64(strike, scaleFactorStable)
+    const volX64 = ReplicationMath.getProportionalVolatility(sigma, tau)
+    const riskyX64 = ReplicationMath.scaleToX64(riskyPerLiquidity, scaleFactorRisky)
+    const phi = CumulativeNormalDistribution.getInverseCDF(sub(CumulativeNormalDistribution.ONE_INT, riskyX64))
+    const input = sub(phi, volX64)
+    const stableX64 = add(mul(strikeX64, CumulativeNormalDistribution.getCDF(input)), invariantLastX64)
+    return ReplicationMath.scaleFromX64(stableX64, scaleFactorStable)
+  }
+
+  /**
+   * Gets risky reserves per liquidity given stable reserves per liquidity.
+   *
+   * @param invariantLastX64 Invariant as a signed 64.64 fixed point number, computed with the same `tau`.
+   * @param scaleFactorRisky Scale factor of the risky token, 10^(18 - risky decimals).
+   * @param scaleFactorStable Scale factor of the stable token, 10^(18 - stable decimals).
+   * @param stablePerLiquidity Stable reserves per 1e18 liquidity, in native stable precision.
+   * @param strike Strike price in native stable precision.
+   * @param sigma Implied volatility in basis points.
+   * @param tau Time until expiry in seconds.
+   *
+   * @returns riskyPerLiquidity = 1 - CDF(CDF^-1((stablePerLiquidity - invariantLast) / K) + sigma * sqrt(tau))
+   */
+  public static getRiskyGivenStable(
+    invariantLastX64: BigNumber,
+    scaleFactorRisky: BigNumberish,
+    scaleFactorStable: BigNumberish,
+    stablePerLiquidity: BigNumberish,
+    strike: BigNumberish,
+    sigma: BigNumberish,
+    tau: BigNumberish
+  ): BigNumber {
+    const { add, sub, div } = ABDKMath64x64
+    const strikeX64 = ReplicationMath.scaleToX64(strike, scaleFactorStable)
+    const volX64 = ReplicationMath.getProportionalVolatility(sigma, tau)
+    const stableX64 = ReplicationMath.scaleToX64(stablePerLiquidity, scaleFactorStable)
+    const phi = CumulativeNormalDistribution.getInverseCDF(div(sub(stableX64, invariantLastX64), strikeX64))
+    const input = add(phi, volX64)
+    const riskyX64 = sub(CumulativeNormalDistribution.ONE_INT, CumulativeNormalDistribution.getCDF(input))
+    return ReplicationMath.scaleFromX64(riskyX64, scaleFactorRisky)
+  }
+
+  /**
+   * Calculates the invariant of a curve, per unit of liquidity.
+   *
+   * @param scaleFactorRisky Scale factor of the risky token, 10^(18 - risky decimals).
+   * @param scaleFactorStable Scale factor of the stable token, 10^(18 - stable decimals).
+   * @param riskyPerLiquidity Risky reserves per 1e18 liquidity, in native risky precision.
+   * @param stablePerLiquidity Stable reserves per 1e18 liquidity, in native stable precision.
+   * @param strike Strike price in native stable precision.
+   * @param sigma Implied volatility in basis points.
+   * @param tau Time until expiry in seconds.
+   *
+   * @returns invariant = stablePerLiquidity - K * CDF(CDF^-1(1 - riskyPerLiquidity) - sigma * sqrt(tau))
+   */
+  public static calcInvariant(
+    scaleFactorRisky: BigNumberish,
+    scaleFactorStable: BigNumberish,
+    riskyPerLiquidity: BigNumberish,
+    stablePerLiquidity: BigNumberish,
+    strike: BigNumberish,
+    sigma: BigNumberish,
+    tau: BigNumberish
+  ): BigNumber {
+    const output = ReplicationMath.getStableGivenRisky(
+      BigNumber.from(0),
+      scaleFactorRisky,
+      scaleFactorStable,
+      riskyPerLiquidity,
+      strike,
+      sigma,
+      tau
+    )
+    const outputX64 = ReplicationMath.scaleToX64(output, scaleFactorStable)
+    const stableX64 = ReplicationMath.scaleToX64(stablePerLiquidity, scaleFactorStable)
+    return ABDKMath64x64.sub(stableX64, outputX64)
+  }
+}
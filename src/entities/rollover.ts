@@ -0,0 +1,324 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import invariant from 'tiny-invariant'
+import { TradeType } from '@uniswap/sdk-core'
+import { parseWei, Wei } from 'web3-units'
+
+import { Calibration } from './calibration'
+import { Engine } from './engine'
+import { Pool, PoolSides } from './pool'
+import { Swaps } from './swaps'
+import { Trade } from './trade'
+import { solveDecreasing } from '../utils'
+
+/** Token amounts allocated by a {@link Rollover} and the liquidity minted for them. */
+export interface RolloverAllocation {
+  /** Amount of risky tokens allocated. */
+  delRisky: Wei
+
+  /** Amount of stable tokens allocated. */
+  delStable: Wei
+
+  /** Amount of liquidity minted in the target pool. */
+  delLiquidity: Wei
+}
+
+/**
+ * Liquidity moved from a pool into another pool of the same Engine, e.g. from an expiring pool into a new calibration.
+ *
+ * @remarks
+ * The removed tokens can be rebalanced with a swap, so they match the ratio of the target pool's reserves.
+ * If the target pool exists, the swap is in the target pool and the tokens are allocated to it.
+ * Otherwise, the swap is in the source pool after the remove and the target pool is created with the tokens.
+ * Amounts are computed using the Engine's integer math, at the {@link Pool.lastTimestamp} of the source pool.
+ *
+ * @beta
+ */
+export class Rollover {
+  /** Pool which the liquidity is removed from. */
+  public readonly source: Pool
+
+  /** Amount of liquidity removed from `source`. */
+  public readonly delLiquidity: Wei
+
+  /** Pool which the liquidity is allocated to, or the pool to create at its reference price. */
+  public readonly target: Pool
+
+  /** True if `target` does not exist and is created. */
+  public readonly createTarget: boolean
+
+  /** Amount of risky tokens removed. */
+  public readonly delRisky: Wei
+
+  /** Amount of stable tokens removed. */
+  public readonly delStable: Wei
+
+  /** Exact input swap which rebalances the removed tokens, if any. */
+  public readonly trade?: Trade
+
+  /** Amounts allocated to the target pool and the liquidity minted. */
+  public readonly allocation: RolloverAllocation
+
+  /** Target pool after the allocate or create. */
+  public readonly poolAfter: Pool
+
+  /**
+   * Gets the rollover of liquidity into an existing pool.
+   *
+   * @param source Pool to remove liquidity from.
+   * @param delLiquidity Amount of liquidity to remove.
+   * @param target Existing pool of the same Engine to allocate to.
+   * @param rebalance True if the removed tokens are swapped in `target` to match its reserves, defaults to true.
+   *
+   * @beta
+   */
+  public static toPool(source: Pool, delLiquidity: Wei, target: Pool, rebalance = true): Rollover {
+    return new Rollover(source, delLiquidity, target, false, rebalance)
+  }
+
+  /**
+   * Gets the rollover of liquidity into a new pool with `calibration`, which is created at `referencePrice`.
+   *
+   * @param source Pool to remove liquidity from.
+   * @param delLiquidity Amount of liquidity to remove.
+   * @param calibration Calibration of the pool to create, in the same Engine as `source`.
+   * @param referencePrice Price of the risky token in the stable token to create the pool at.
+   * @param rebalance True if the removed tokens are swapped in `source` to match the created reserves, defaults to
+   * true unless `source` is expired, since the Engine reverts swaps in a pool with no time until maturity.
+   *
+   * @beta
+   */
+  public static toCalibration(
+    source: Pool,
+    delLiquidity: Wei,
+    calibration: Calibration,
+    referencePrice: number,
+    rebalance = source.tau.raw > 0
+  ): Rollover {
+    const target = Pool.fromReferencePrice(
+      referencePrice,
+      calibration.factory,
+      calibration.risky,
+      calibration.stable,
+      {
+        strike: calibration.strike.raw.toString(),
+        sigma: calibration.sigma.raw.toString(),
+        maturity: calibration.maturity.raw.toString(),
+        gamma: calibration.gamma.raw.toString(),
+        lastTimestamp: source.lastTimestamp.raw.toString()
+      },
+      calibration.chainId
+    )
+    return new Rollover(source, delLiquidity, target, true, rebalance)
+  }
+
+  /**
+   * @param source Pool to remove liquidity from.
+   * @param delLiquidity Amount of liquidity to remove.
+   * @param target Pool of the same Engine to allocate to, or to create if `createTarget` is true.
+   * @param createTarget True if `target` does not exist and is created.
+   * @param rebalance True if the removed tokens are swapped to match the reserves of `target`.
+   *
+   * @throws
+   * Throws if `target` is not in the same Engine as `source`, or is the same pool.
+   * Throws if `delLiquidity` is zero or greater than the liquidity of `source`.
+   * Throws if the rebalancing swap would be reverted by the Engine, e.g. in an expired source pool.
+   * Throws if no liquidity can be allocated or created with the tokens.
+   */
+  constructor(source: Pool, delLiquidity: Wei, target: Pool, createTarget: boolean, rebalance: boolean) {
+    invariant(source.address === target.address, `Engine mismatch: ${source.address} != ${target.address}`)
+    invariant(source.poolId !== target.poolId, `Target is the source pool: ${source.poolId}`)
+    this.source = source
+    this.delLiquidity = delLiquidity
+    this.target = target
+    this.createTarget = createTarget
+
+    const { delRisky, delStable } = source.liquidityQuote(delLiquidity, PoolSides.RMM_LP)
+    this.delRisky = delRisky
+    this.delStable = delStable
+
+    if (rebalance) this.trade = this.getRebalance()
+
+    this.allocation = this.getAllocation()
+    const { delRisky: allocatedRisky, delStable: allocatedStable } = this.allocation
+    this.poolAfter = createTarget
+      ? Pool.applyCreate(
+          target.chainId,
+          target.factory,
+          target.risky,
+          target.stable,
+          this.getCalibration(),
+          this.riskyPerLp,
+          this.allocation.delLiquidity
+        )
+      : (this.trade ? this.trade.poolAfter : target).applyAllocate(allocatedRisky, allocatedStable)
+  }
+
+  /** Expected liquidity in the target pool, which includes the min liquidity burned if the pool is created. */
+  get liquidity(): Wei {
+    return this.allocation.delLiquidity
+  }
+
+  /** Amount of risky tokens removed or received from the swap which is not allocated, left in margin. */
+  get leftoverRisky(): Wei {
+    return this.getLeftover(true)
+  }
+
+  /** Amount of stable tokens removed or received from the swap which is not allocated, left in margin. */
+  get leftoverStable(): Wei {
+    return this.getLeftover(false)
+  }
+
+  /**
+   * Risky tokens per 1e18 liquidity of the created pool, computed like {@link PeripheryManager.encodeCreate}.
+   *
+   * @throws
+   * Throws if `target` has an undefined {@link Pool.referencePriceOfRisky}.
+   */
+  get riskyPerLp(): Wei {
+    const { target } = this
+    invariant(typeof target.referencePriceOfRisky !== 'undefined', 'Target pool has no reference price')
+    return parseWei(
+      Swaps.getRiskyReservesGivenReferencePrice(
+        target.strike.float,
+        target.sigma.float,
+        target.tau.years,
+        target.referencePriceOfRisky.float
+      ),
+      target.risky.decimals
+    )
+  }
+
+  /**
+   * Gets the amounts allocated if `removed` tokens are received from the remove, `inputAmount` of them is swapped and
+   * `outputAmount` is received from the rebalancing swap, e.g. the minimum amounts given a slippage tolerance.
+   *
+   * @remarks
+   * If the target pool exists, the amounts are matched to its reserves after the swap, see {@link Pool.allocationQuote}.
+   * Otherwise, the liquidity created is the largest which can be paid with the tokens, like `PrimitiveEngine.create`.
+   *
+   * @param outputAmount Amount received from the swap, defaults to the quoted output of {@link Rollover.trade}.
+   * @param inputAmount Amount paid to the swap, defaults to the input of {@link Rollover.trade}.
+   * @param removed Amounts received from the remove, default to {@link Rollover.delRisky} and {@link Rollover.delStable}.
+   *
+   * @beta
+   */
+  getAllocation(
+    outputAmount?: Wei,
+    inputAmount?: Wei,
+    removed: { delRisky: Wei; delStable: Wei } = this
+  ): RolloverAllocation {
+    const { target, trade } = this
+    let [amountRisky, amountStable] = [removed.delRisky, removed.delStable]
+    let poolSwapped = target
+
+    if (trade) {
+      const output = outputAmount ?? trade.outputAmount
+      const input = inputAmount ?? trade.inputAmount
+      amountRisky = trade.riskyForStable ? amountRisky.sub(input) : amountRisky.add(output)
+      amountStable = trade.riskyForStable ? amountStable.add(output) : amountStable.sub(input)
+      if (!this.createTarget) poolSwapped = target.applySwap(trade.riskyForStable, input, output)
+    }
+
+    if (!this.createTarget) return poolSwapped.allocationQuote(amountRisky, amountStable)
+
+    const { riskyPerLp, stablePerLp } = this.getCreatePerLp()
+    const liquidity0 = amountRisky.raw.mul(Engine.PRECISION.raw).div(riskyPerLp.raw)
+    const liquidity1 = amountStable.raw.mul(Engine.PRECISION.raw).div(stablePerLp.raw)
+    const delLiquidity = new Wei(liquidity0.lt(liquidity1) ? liquidity0 : liquidity1, target.liquidity.decimals)
+    const created = Pool.applyCreate(
+      target.chainId,
+      target.factory,
+      target.risky,
+      target.stable,
+      this.getCalibration(),
+      riskyPerLp,
+      delLiquidity
+    )
+    return { delRisky: created.reserveRisky, delStable: created.reserveStable, delLiquidity }
+  }
+
+  /** Gets the swap which matches the removed tokens to the ratio of the target pool, if any amount is swapped. */
+  private getRebalance(): Trade | undefined {
+    const { createTarget, delRisky, delStable } = this
+    const swapPool = createTarget ? this.source.applyRemove(this.delLiquidity) : this.target
+    const { riskyPerLp, stablePerLp } = createTarget
+      ? this.getCreatePerLp()
+      : { riskyPerLp: this.target.reserveRisky, stablePerLp: this.target.reserveStable }
+    const [targetRisky, targetStable] = [riskyPerLp.raw, stablePerLp.raw]
+
+    // the side with more tokens per target reserve is swapped
+    const riskyForStable = delRisky.raw.mul(targetStable).gt(delStable.raw.mul(targetRisky))
+    const [tokenIn, amountIn, amountOut] = riskyForStable
+      ? [swapPool.risky, delRisky.raw, delStable.raw]
+      : [swapPool.stable, delStable.raw, delRisky.raw]
+    const [reserveIn, reserveOut] = riskyForStable ? [targetRisky, targetStable] : [targetStable, targetRisky]
+
+    const outputOf = (swapAmount: BigNumber): BigNumber =>
+      swapAmount.isZero()
+        ? swapAmount
+        : swapPool.amountOutX64(tokenIn, new Wei(swapAmount, tokenIn.decimals)).output.raw
+
+    // remaining input per reserve in, minus output per reserve out, where the reserves of an existing target change
+    const excessOf = (swapAmount: BigNumber): BigNumber => {
+      const output = outputOf(swapAmount)
+      const [nextIn, nextOut] = createTarget
+        ? [reserveIn, reserveOut]
+        : [reserveIn.add(swapAmount), reserveOut.sub(output)]
+      return amountIn
+        .sub(swapAmount)
+        .mul(nextOut)
+        .sub(amountOut.add(output).mul(nextIn))
+    }
+
+    const swapAmount = solveDecreasing(excessOf, BigNumber.from(0), amountIn)
+    const output = outputOf(swapAmount)
+    if (swapAmount.isZero() || output.isZero()) return undefined
+
+    return new Trade(
+      swapPool,
+      TradeType.EXACT_INPUT,
+      riskyForStable,
+      new Wei(swapAmount, tokenIn.decimals),
+      new Wei(output, riskyForStable ? swapPool.stable.decimals : swapPool.risky.decimals)
+    )
+  }
+
+  /** Gets the risky and stable tokens per 1e18 liquidity paid to create the target pool. */
+  private getCreatePerLp(): { riskyPerLp: Wei; stablePerLp: Wei } {
+    const { target } = this
+    const riskyPerLp = this.riskyPerLp
+    const created = Pool.applyCreate(
+      target.chainId,
+      target.factory,
+      target.risky,
+      target.stable,
+      this.getCalibration(),
+      riskyPerLp,
+      Engine.PRECISION
+    )
+    return { riskyPerLp, stablePerLp: created.reserveStable }
+  }
+
+  /** Gets the calibration of the target pool, created at the last timestamp of the source pool. */
+  private getCalibration() {
+    const { target } = this
+    return {
+      strike: target.strike.raw.toString(),
+      sigma: target.sigma.raw.toString(),
+      maturity: target.maturity.raw.toString(),
+      gamma: target.gamma.raw.toString(),
+      lastTimestamp: this.source.lastTimestamp.raw.toString()
+    }
+  }
+
+  /** Gets the amount of risky or stable tokens which is not allocated. */
+  private getLeftover(risky: boolean): Wei {
+    const { trade, allocation } = this
+    let amount = risky ? this.delRisky : this.delStable
+    if (trade) {
+      const paid = trade.riskyForStable === risky
+      amount = paid ? amount.sub(trade.inputAmount) : amount.add(trade.outputAmount)
+    }
+    return amount.sub(risky ? allocation.delRisky : allocation.delStable)
+  }
+}
@@ -0,0 +1,107 @@
+import invariant from 'tiny-invariant'
+import { parseWei, Time, Wei } from 'web3-units'
+
+import { Engine } from './engine'
+import { Pool } from './pool'
+
+/** Reserves of one unit of liquidity at expiry. */
+export interface TerminalReserves {
+  /** Amount of risky tokens per liquidity, with the risky token's decimals. */
+  riskyPerLiquidity: Wei
+
+  /** Amount of stable tokens per liquidity, with the stable token's decimals. */
+  stablePerLiquidity: Wei
+}
+
+/**
+ * Static functions to model a pool at and after its `maturity`.
+ *
+ * @remarks
+ * The Engine clamps the `lastTimestamp` of a pool to its `maturity`. Swaps are possible until `maturity` plus
+ * {@link Engine.BUFFER} seconds, which gives arbitrageurs time to move the reserves to the covered call payoff.
+ * Allocating is not possible after `maturity`, while removing liquidity is always possible.
+ *
+ * @beta
+ */
+export class Settlement {
+  /**
+   * Gets true if `timestamp` is after the `maturity` of `pool`.
+   *
+   * @param pool Pool with the calibration to check.
+   * @param timestamp Timestamp in seconds, defaults to now.
+   *
+   * @beta
+   */
+  public static isExpired(pool: Pool, timestamp: Time = new Time(Time.now)): boolean {
+    return timestamp.raw > pool.maturity.raw
+  }
+
+  /**
+   * Gets true if `pool` is expired at `timestamp`, but swaps are still possible within the {@link Engine.BUFFER}.
+   *
+   * @param pool Pool with the calibration to check.
+   * @param timestamp Timestamp in seconds, defaults to now.
+   *
+   * @beta
+   */
+  public static isBufferOpen(pool: Pool, timestamp: Time = new Time(Time.now)): boolean {
+    return Settlement.isExpired(pool, timestamp) && Settlement.isSwapOpen(pool, timestamp)
+  }
+
+  /**
+   * Gets true if `PrimitiveEngine.swap` is possible in `pool` at `timestamp`.
+   *
+   * @param pool Pool with the calibration to check.
+   * @param timestamp Timestamp in seconds, defaults to now.
+   *
+   * @beta
+   */
+  public static isSwapOpen(pool: Pool, timestamp: Time = new Time(Time.now)): boolean {
+    return timestamp.raw <= pool.maturity.raw + Engine.BUFFER
+  }
+
+  /**
+   * Gets the reserves of one unit of liquidity at expiry, if arbitrageurs moved the pool to `spot`.
+   *
+   * @remarks
+   * The covered call is exercised if `spot` is above the strike, so the reserves are entirely stable tokens equal
+   * to the strike. Else, the reserves are entirely one risky token.
+   *
+   * @param pool Pool with the calibration of the covered call.
+   * @param spot Price of the risky token at expiry, denominated in the stable token.
+   *
+   * @throws
+   * Throws if `spot` is not a positive number.
+   *
+   * @beta
+   */
+  public static getTerminalReserves(pool: Pool, spot: number): TerminalReserves {
+    invariant(spot > 0 && isFinite(spot), `Spot price must be greater than zero: ${spot}`)
+    const exercised = spot > pool.strike.float
+    return {
+      riskyPerLiquidity: parseWei(exercised ? 0 : 1, pool.risky.decimals),
+      stablePerLiquidity: exercised ? pool.strike : parseWei(0, pool.stable.decimals)
+    }
+  }
+
+  /**
+   * Gets the value of one unit of liquidity at expiry, equal to the minimum of `spot` and the strike.
+   *
+   * @param pool Pool with the calibration of the covered call.
+   * @param spot Price of the risky token at expiry, denominated in the stable token.
+   *
+   * @returns Payoff denominated in the stable token, with the stable token's decimals.
+   *
+   * @throws
+   * Throws if `spot` is not a positive number.
+   *
+   * @beta
+   */
+  public static getPayoffPerLiquidity(pool: Pool, spot: number): Wei {
+    const { riskyPerLiquidity, stablePerLiquidity } = Settlement.getTerminalReserves(pool, spot)
+    const riskyValue = parseWei(spot, pool.stable.decimals)
+      .mul(riskyPerLiquidity)
+      .div(parseWei(1, pool.risky.decimals))
+    return riskyValue.add(stablePerLiquidity)
+  }
+}
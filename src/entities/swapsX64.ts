@@ -0,0 +1,574 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import invariant from 'tiny-invariant'
+import { FixedPointX64, Percentage, Time, Wei } from 'web3-units'
+
+import { Floating } from './Floating'
+import { ReplicationMath } from './replicationMath'
+import { CumulativeNormalDistribution } from './cumulativeNormalDistribution'
+
+/** Post-swap invariant and implied price after a swap, computed with the smart contract's integer math. */
+export interface SwapResultX64 {
+  /** Post-swap invariant of the pool, as a signed 64.64 fixed point number. */
+  invariant: FixedPointX64
+
+  /** Price of the risky token paid or received in the swap, denominated in the stable token. */
+  priceIn: Wei
+}
+
+export interface ExactInResultX64 extends SwapResultX64 {
+  /** Amount of tokens output from a swap. */
+  output: Wei
+}
+
+export interface ExactOutResultX64 extends SwapResultX64 {
+  /** Amount of tokens input to a swap. */
+  input: Wei
+}
+
+/** {@internal} */
+interface CurveX64 {
+  scaleFactorRisky: BigNumber
+  scaleFactorStable: BigNumber
+  reserveRisky: BigNumber
+  reserveStable: BigNumber
+  liquidity: BigNumber
+  strike: BigNumber
+  sigma: BigNumber
+  gamma: BigNumber
+  tau: BigNumber
+}
+
+/** Rounds up the division of two unsigned integers. */
+function divCeil(x: BigNumber, y: BigNumber): BigNumber {
+  return x.add(y.sub(1)).div(y)
+}
+
+/**
+ * Static functions to compute swap in/out amounts using the same integer math as PrimitiveEngine.sol.
+ *
+ * @remarks
+ * Unlike {@link Swaps}, amounts are never approximated with floating point numbers.
+ * The CDF and inverse CDF approximations and the rounding of each step are reproduced from the smart contracts,
+ * so a quoted amount always passes the Engine's invariant check,
+ * given the Engine's `lastTimestamp` is updated to the same timestamp used to compute `tau`.
+ *
+ * @beta
+ */
+export class SwapsX64 {
+  /**
+   * Gets the scale factor of a token, 10^(18 - decimals), used by the Engine to scale amounts.
+   *
+   * @param decimals Decimal places of the token.
+   */
+  public static getScaleFactor(decimals: number): BigNumber {
+    invariant(decimals <= 18 && decimals >= 0, `Decimals out of bounds: ${decimals}`)
+    return BigNumber.from(10).pow(18 - decimals)
+  }
+
+  /**
+   * Gets the invariant of a pool, as computed by `PrimitiveEngine.invariantOf`.
+   *
+   * @param decimalsRisky Decimal places of the risky token.
+   * @param decimalsStable Decimal places of the stable token.
+   * @param reserveRisky Amount of risky tokens in reserve.
+   * @param reserveStable Amount of stable tokens in reserve.
+   * @param reserveLiquidity Total supply of liquidity.
+   * @param strike Strike price with the same precision as the stable token.
+   * @param sigma Implied volatility.
+   * @param tau Time until expiry in seconds.
+   *
+   * @returns Invariant as a signed 64.64 fixed point number.
+   *
+   * @beta
+   */
+  public static invariantOf(
+    decimalsRisky: number,
+    decimalsStable: number,
+    reserveRisky: Wei,
+    reserveStable: Wei,
+    reserveLiquidity: Wei,
+    strike: Wei,
+    sigma: Percentage,
+    tau: Time
+  ): FixedPointX64 {
+    const curve = SwapsX64.toCurve(
+      decimalsRisky,
+      decimalsStable,
+      reserveRisky,
+      reserveStable,
+      reserveLiquidity,
+      strike,
+      sigma,
+      new Percentage(BigNumber.from(ReplicationMath.PERCENTAGE)),
+      tau
+    )
+    return new FixedPointX64(SwapsX64.getInvariant(curve), decimalsStable)
+  }
+
+  /**
+   * Gets the invariant after a swap, as computed by `PrimitiveEngine.swap` to check the swap is valid.
+   *
+   * @remarks
+   * A swap is valid if this invariant is greater than or equal to the invariant before the swap.
+   *
+   * @param riskyForStable True if the risky token is paid to receive the stable token.
+   * @param deltaIn Amount of tokens paid, including the fee.
+   * @param deltaOut Amount of tokens received.
+   * @param decimalsRisky Decimal places of the risky token.
+   * @param decimalsStable Decimal places of the stable token.
+   * @param reserveRisky Amount of risky tokens in reserve.
+   * @param reserveStable Amount of stable tokens in reserve.
+   * @param reserveLiquidity Total supply of liquidity.
+   * @param strike Strike price with the same precision as the stable token.
+   * @param sigma Implied volatility.
+   * @param gamma Equal to 10_000 - fee, in basis points.
+   * @param tau Time until expiry in seconds.
+   *
+   * @returns Invariant as a signed 64.64 fixed point number.
+   *
+   * @beta
+   */
+  public static getInvariantAfterSwap(
+    riskyForStable: boolean,
+    deltaIn: Wei,
+    deltaOut: Wei,
+    decimalsRisky: number,
+    decimalsStable: number,
+    reserveRisky: Wei,
+    reserveStable: Wei,
+    reserveLiquidity: Wei,
+    strike: Wei,
+    sigma: Percentage,
+    gamma: Percentage,
+    tau: Time
+  ): FixedPointX64 {
+    const curve = SwapsX64.toCurve(
+      decimalsRisky,
+      decimalsStable,
+      reserveRisky,
+      reserveStable,
+      reserveLiquidity,
+      strike,
+      sigma,
+      gamma,
+      tau
+    )
+    const invariantAfter = SwapsX64.getSwapInvariant(curve, riskyForStable, deltaIn.raw, deltaOut.raw)
+    return new FixedPointX64(invariantAfter, decimalsStable)
+  }
+
+  /**
+   * Gets output amount of stable tokens given an exact amount of risky tokens in.
+   *
+   * @remarks
+   * Output is the largest amount which passes the Engine's invariant check.
+   *
+   * @param amountIn Amount of risky token to add to risky reserve.
+   * @param decimalsRisky Decimal places of the risky token.
+   * @param decimalsStable Decimal places of the stable token.
+   * @param reserveRisky Amount of risky tokens in reserve.
+   * @param reserveStable Amount of stable tokens in reserve.
+   * @param reserveLiquidity Total supply of liquidity.
+   * @param strike Strike price with the same precision as the stable token.
+   * @param sigma Implied volatility.
+   * @param gamma Equal to 10_000 - fee, in basis points.
+   * @param tau Time until expiry in seconds.
+   *
+   * @beta
+   */
+  public static exactRiskyInput(
+    amountIn: Wei,
+    decimalsRisky: number,
+    decimalsStable: number,
+    reserveRisky: Wei,
+    reserveStable: Wei,
+    reserveLiquidity: Wei,
+    strike: Wei,
+    sigma: Percentage,
+    gamma: Percentage,
+    tau: Time
+  ): ExactInResultX64 {
+    invariant(amountIn.gte(0), `Amount in cannot be negative: ${amountIn.toString()}`)
+    const curve = SwapsX64.toCurve(
+      decimalsRisky,
+      decimalsStable,
+      reserveRisky,
+      reserveStable,
+      reserveLiquidity,
+      strike,
+      sigma,
+      gamma,
+      tau
+    )
+
+    const k = SwapsX64.getInvariant(curve)
+    const adjustedRisky = SwapsX64.toPerLiquidity(curve, curve.reserveRisky.add(SwapsX64.applyFee(curve, amountIn.raw)))
+    const target = k.add(SwapsX64.getStableX64GivenRisky(curve, adjustedRisky))
+    const minStable = SwapsX64.toAmount(curve, SwapsX64.getMinStablePerLiquidity(curve, target))
+    invariant(minStable.lte(curve.reserveStable), `Next stable reserves are out of bounds: ${minStable.toString()}`)
+
+    const output = curve.reserveStable.sub(minStable)
+    const invariantAfter = SwapsX64.checkSwap(curve, true, amountIn.raw, output, k)
+
+    return {
+      output: new Wei(output, decimalsStable),
+      invariant: new FixedPointX64(invariantAfter, decimalsStable),
+      priceIn: SwapsX64.getPrice(amountIn.raw, output, decimalsRisky, decimalsStable)
+    }
+  }
+
+  /**
+   * Gets output amount of risky tokens given an exact amount of stable tokens in.
+   *
+   * @remarks
+   * Output is the largest amount which passes the Engine's invariant check.
+   *
+   * @param amountIn Amount of stable tokens to add to stable reserve.
+   * @param decimalsRisky Decimal places of the risky token.
+   * @param decimalsStable Decimal places of the stable token.
+   * @param reserveRisky Amount of risky tokens in reserve.
+   * @param reserveStable Amount of stable tokens in reserve.
+   * @param reserveLiquidity Total supply of liquidity.
+   * @param strike Strike price with the same precision as the stable token.
+   * @param sigma Implied volatility.
+   * @param gamma Equal to 10_000 - fee, in basis points.
+   * @param tau Time until expiry in seconds.
+   *
+   * @beta
+   */
+  public static exactStableInput(
+    amountIn: Wei,
+    decimalsRisky: number,
+    decimalsStable: number,
+    reserveRisky: Wei,
+    reserveStable: Wei,
+    reserveLiquidity: Wei,
+    strike: Wei,
+    sigma: Percentage,
+    gamma: Percentage,
+    tau: Time
+  ): ExactInResultX64 {
+    invariant(amountIn.gte(0), `Amount in cannot be negative: ${amountIn.toString()}`)
+    const curve = SwapsX64.toCurve(
+      decimalsRisky,
+      decimalsStable,
+      reserveRisky,
+      reserveStable,
+      reserveLiquidity,
+      strike,
+      sigma,
+      gamma,
+      tau
+    )
+
+    const k = SwapsX64.getInvariant(curve)
+    const adjustedStable = SwapsX64.toPerLiquidity(
+      curve,
+      curve.reserveStable.add(SwapsX64.applyFee(curve, amountIn.raw))
+    )
+    const bound = ReplicationMath.scaleToX64(adjustedStable, curve.scaleFactorStable).sub(k)
+    const riskyPerLiquidity = SwapsX64.toPerLiquidity(curve, curve.reserveRisky)
+    const minRisky = SwapsX64.toAmount(curve, SwapsX64.getMinRiskyPerLiquidity(curve, bound, 1, riskyPerLiquidity))
+    invariant(minRisky.lte(curve.reserveRisky), `Next risky reserves are out of bounds: ${minRisky.toString()}`)
+
+    const output = curve.reserveRisky.sub(minRisky)
+    const invariantAfter = SwapsX64.checkSwap(curve, false, amountIn.raw, output, k)
+
+    return {
+      output: new Wei(output, decimalsRisky),
+      invariant: new FixedPointX64(invariantAfter, decimalsStable),
+      priceIn: SwapsX64.getPrice(output, amountIn.raw, decimalsRisky, decimalsStable)
+    }
+  }
+
+  /**
+   * Gets input amount of stable tokens given an exact amount of risky tokens out.
+   *
+   * @remarks
+   * Input is the smallest amount, including the fee, which passes the Engine's invariant check.
+   *
+   * @param amountOut Amount of risky tokens to remove from risky reserve.
+   * @param decimalsRisky Decimal places of the risky token.
+   * @param decimalsStable Decimal places of the stable token.
+   * @param reserveRisky Amount of risky tokens in reserve.
+   * @param reserveStable Amount of stable tokens in reserve.
+   * @param reserveLiquidity Total supply of liquidity.
+   * @param strike Strike price with the same precision as the stable token.
+   * @param sigma Implied volatility.
+   * @param gamma Equal to 10_000 - fee, in basis points.
+   * @param tau Time until expiry in seconds.
+   *
+   * @beta
+   */
+  public static exactRiskyOutput(
+    amountOut: Wei,
+    decimalsRisky: number,
+    decimalsStable: number,
+    reserveRisky: Wei,
+    reserveStable: Wei,
+    reserveLiquidity: Wei,
+    strike: Wei,
+    sigma: Percentage,
+    gamma: Percentage,
+    tau: Time
+  ): ExactOutResultX64 {
+    invariant(amountOut.gte(0), `Amount out cannot be negative: ${amountOut.toString()}`)
+    const curve = SwapsX64.toCurve(
+      decimalsRisky,
+      decimalsStable,
+      reserveRisky,
+      reserveStable,
+      reserveLiquidity,
+      strike,
+      sigma,
+      gamma,
+      tau
+    )
+    invariant(amountOut.raw.lt(curve.reserveRisky), `Amount out exceeds risky reserves: ${amountOut.toString()}`)
+
+    const k = SwapsX64.getInvariant(curve)
+    const adjustedRisky = SwapsX64.toPerLiquidity(curve, curve.reserveRisky.sub(amountOut.raw))
+    const target = k.add(SwapsX64.getStableX64GivenRisky(curve, adjustedRisky))
+    const minStable = SwapsX64.toAmount(curve, SwapsX64.getMinStablePerLiquidity(curve, target))
+
+    const input = SwapsX64.removeFee(curve, minStable.sub(curve.reserveStable), amountOut.raw)
+    const invariantAfter = SwapsX64.checkSwap(curve, false, input, amountOut.raw, k)
+
+    return {
+      input: new Wei(input, decimalsStable),
+      invariant: new FixedPointX64(invariantAfter, decimalsStable),
+      priceIn: SwapsX64.getPrice(amountOut.raw, input, decimalsRisky, decimalsStable)
+    }
+  }
+
+  /**
+   * Gets input amount of risky tokens given an exact amount of stable tokens out.
+   *
+   * @remarks
+   * Input is the smallest amount, including the fee, which passes the Engine's invariant check.
+   *
+   * @param amountOut Amount of stable tokens to remove from stable reserve.
+   * @param decimalsRisky Decimal places of the risky token.
+   * @param decimalsStable Decimal places of the stable token.
+   * @param reserveRisky Amount of risky tokens in reserve.
+   * @param reserveStable Amount of stable tokens in reserve.
+   * @param reserveLiquidity Total supply of liquidity.
+   * @param strike Strike price with the same precision as the stable token.
+   * @param sigma Implied volatility.
+   * @param gamma Equal to 10_000 - fee, in basis points.
+   * @param tau Time until expiry in seconds.
+   *
+   * @beta
+   */
+  public static exactStableOutput(
+    amountOut: Wei,
+    decimalsRisky: number,
+    decimalsStable: number,
+    reserveRisky: Wei,
+    reserveStable: Wei,
+    reserveLiquidity: Wei,
+    strike: Wei,
+    sigma: Percentage,
+    gamma: Percentage,
+    tau: Time
+  ): ExactOutResultX64 {
+    invariant(amountOut.gte(0), `Amount out cannot be negative: ${amountOut.toString()}`)
+    const curve = SwapsX64.toCurve(
+      decimalsRisky,
+      decimalsStable,
+      reserveRisky,
+      reserveStable,
+      reserveLiquidity,
+      strike,
+      sigma,
+      gamma,
+      tau
+    )
+    invariant(amountOut.raw.lt(curve.reserveStable), `Amount out exceeds stable reserves: ${amountOut.toString()}`)
+
+    const k = SwapsX64.getInvariant(curve)
+    const adjustedStable = SwapsX64.toPerLiquidity(curve, curve.reserveStable.sub(amountOut.raw))
+    const bound = ReplicationMath.scaleToX64(adjustedStable, curve.scaleFactorStable).sub(k)
+    const riskyPerLiquidity = SwapsX64.toPerLiquidity(curve, curve.reserveRisky)
+    const maxRiskyPerLiquidity = ReplicationMath.PRECISION.div(curve.scaleFactorRisky).sub(1)
+    const minRisky = SwapsX64.toAmount(
+      curve,
+      SwapsX64.getMinRiskyPerLiquidity(curve, bound, riskyPerLiquidity, maxRiskyPerLiquidity)
+    )
+
+    const input = SwapsX64.removeFee(curve, minRisky.sub(curve.reserveRisky), amountOut.raw)
+    const invariantAfter = SwapsX64.checkSwap(curve, true, input, amountOut.raw, k)
+
+    return {
+      input: new Wei(input, decimalsRisky),
+      invariant: new FixedPointX64(invariantAfter, decimalsStable),
+      priceIn: SwapsX64.getPrice(input, amountOut.raw, decimalsRisky, decimalsStable)
+    }
+  }
+
+  // --- Internal ---
+
+  /** {@internal} */
+  private static toCurve(
+    decimalsRisky: number,
+    decimalsStable: number,
+    reserveRisky: Wei,
+    reserveStable: Wei,
+    reserveLiquidity: Wei,
+    strike: Wei,
+    sigma: Percentage,
+    gamma: Percentage,
+    tau: Time
+  ): CurveX64 {
+    invariant(reserveLiquidity.gt(0), `Liquidity must be greater than zero`)
+    invariant(tau.raw >= 0, `Tau cannot be negative: ${tau.raw}`)
+    return {
+      scaleFactorRisky: SwapsX64.getScaleFactor(decimalsRisky),
+      scaleFactorStable: SwapsX64.getScaleFactor(decimalsStable),
+      reserveRisky: reserveRisky.raw,
+      reserveStable: reserveStable.raw,
+      liquidity: reserveLiquidity.raw,
+      strike: strike.raw,
+      sigma: sigma.raw,
+      gamma: gamma.raw,
+      tau: BigNumber.from(Math.floor(tau.raw))
+    }
+  }
+
+  /** Scales a reserve amount to an amount per 1e18 liquidity, rounding down like `Reserve.getAmounts`. */
+  private static toPerLiquidity(curve: CurveX64, amount: BigNumber): BigNumber {
+    return amount.mul(ReplicationMath.PRECISION).div(curve.liquidity)
+  }
+
+  /** Gets the smallest reserve amount which scales to at least `perLiquidity`. */
+  private static toAmount(curve: CurveX64, perLiquidity: BigNumber): BigNumber {
+    return divCeil(perLiquidity.mul(curve.liquidity), ReplicationMath.PRECISION)
+  }
+
+  /** Amount in multiplied by gamma, rounding down like `PrimitiveEngine.swap`. */
+  private static applyFee(curve: CurveX64, amount: BigNumber): BigNumber {
+    return amount.mul(curve.gamma).div(ReplicationMath.PERCENTAGE)
+  }
+
+  /** Gets the smallest amount in which has at least `amountWithFee` after the fee is applied. */
+  private static removeFee(curve: CurveX64, amountWithFee: BigNumber, amountOut: BigNumber): BigNumber {
+    const amount = amountWithFee.gt(0)
+      ? divCeil(amountWithFee.mul(ReplicationMath.PERCENTAGE), curve.gamma)
+      : BigNumber.from(0)
+    // the Engine reverts if either amount is zero
+    return amountOut.gt(0) && amount.isZero() ? BigNumber.from(1) : amount
+  }
+
+  /** Invariant of the curve computed with the current reserves, equal to `PrimitiveEngine.invariantOf`. */
+  private static getInvariant(curve: CurveX64): BigNumber {
+    return ReplicationMath.calcInvariant(
+      curve.scaleFactorRisky,
+      curve.scaleFactorStable,
+      SwapsX64.toPerLiquidity(curve, curve.reserveRisky),
+      SwapsX64.toPerLiquidity(curve, curve.reserveStable),
+      curve.strike,
+      curve.sigma,
+      curve.tau
+    )
+  }
+
+  /** Invariant of the curve after a swap, equal to the one computed in `PrimitiveEngine.swap`. */
+  private static getSwapInvariant(
+    curve: CurveX64,
+    riskyForStable: boolean,
+    deltaIn: BigNumber,
+    deltaOut: BigNumber
+  ): BigNumber {
+    const deltaInWithFee = SwapsX64.applyFee(curve, deltaIn)
+    const adjustedRisky = riskyForStable ? curve.reserveRisky.add(deltaInWithFee) : curve.reserveRisky.sub(deltaOut)
+    const adjustedStable = riskyForStable ? curve.reserveStable.sub(deltaOut) : curve.reserveStable.add(deltaInWithFee)
+    return ReplicationMath.calcInvariant(
+      curve.scaleFactorRisky,
+      curve.scaleFactorStable,
+      SwapsX64.toPerLiquidity(curve, adjustedRisky),
+      SwapsX64.toPerLiquidity(curve, adjustedStable),
+      curve.strike,
+      curve.sigma,
+      curve.tau
+    )
+  }
+
+  /** Throws if the swap would revert in the Engine's invariant check, else returns the invariant after the swap. */
+  private static checkSwap(
+    curve: CurveX64,
+    riskyForStable: boolean,
+    deltaIn: BigNumber,
+    deltaOut: BigNumber,
+    invariantLast: BigNumber
+  ): BigNumber {
+    const invariantAfter = SwapsX64.getSwapInvariant(curve, riskyForStable, deltaIn, deltaOut)
+    invariant(invariantAfter.gte(invariantLast), `Invariant decreased by: ${invariantLast.sub(invariantAfter)}`)
+    return invariantAfter
+  }
+
+  /** Stable reserves per liquidity of the zero invariant curve as a 64.64 fixed point number, as used in `calcInvariant`. */
+  private static getStableX64GivenRisky(curve: CurveX64, riskyPerLiquidity: BigNumber): BigNumber {
+    const stablePerLiquidity = ReplicationMath.getStableGivenRisky(
+      BigNumber.from(0),
+      curve.scaleFactorRisky,
+      curve.scaleFactorStable,
+      riskyPerLiquidity,
+      curve.strike,
+      curve.sigma,
+      curve.tau
+    )
+    return ReplicationMath.scaleToX64(stablePerLiquidity, curve.scaleFactorStable)
+  }
+
+  /** Smallest stable reserves per liquidity which convert to a 64.64 fixed point number greater than or equal to `target`. */
+  private static getMinStablePerLiquidity(curve: CurveX64, target: BigNumber): BigNumber {
+    if (target.lte(0)) return BigNumber.from(0)
+    const denominator = ReplicationMath.PRECISION.div(curve.scaleFactorStable)
+    return divCeil(target.mul(denominator), CumulativeNormalDistribution.ONE_INT)
+  }
+
+  /**
+   * Smallest risky reserves per liquidity within `lower` and `upper` which have a zero invariant stable reserve
+   * less than or equal to `bound`, found with a bisection.
+   *
+   * @remarks
+   * Stable reserves decrease as risky reserves increase. Values which revert in the inverse CDF are
+   * treated as if they are on the side of the curve which they are closest to.
+   */
+  private static getMinRiskyPerLiquidity(
+    curve: CurveX64,
+    bound: BigNumber,
+    lower: BigNumber | number,
+    upper: BigNumber
+  ): BigNumber {
+    const halfRiskyPerLiquidity = ReplicationMath.PRECISION.div(curve.scaleFactorRisky).div(2)
+    const isBelowBound = (riskyPerLiquidity: BigNumber): boolean => {
+      try {
+        return SwapsX64.getStableX64GivenRisky(curve, riskyPerLiquidity).lte(bound)
+      } catch (e) {
+        return riskyPerLiquidity.gt(halfRiskyPerLiquidity)
+      }
+    }
+
+    let lo = BigNumber.from(lower)
+    let hi = upper
+    invariant(isBelowBound(hi), `Next risky reserves are out of bounds`)
+    while (lo.lt(hi)) {
+      const mid = lo.add(hi).div(2)
+      if (isBelowBound(mid)) hi = mid
+      else lo = mid.add(1)
+    }
+    return hi
+  }
+
+  /** Price of the risky token denominated in the stable token, or infinity if the risky amount is zero. */
+  private static getPrice(
+    riskyAmount: BigNumber,
+    stableAmount: BigNumber,
+    decimalsRisky: number,
+    decimalsStable: number
+  ): Wei {
+    if (riskyAmount.isZero()) return new Wei(Floating.INFINITY, decimalsStable)
+    return new Wei(stableAmount.mul(BigNumber.from(10).pow(decimalsRisky)).div(riskyAmount), decimalsStable)
+  }
+}
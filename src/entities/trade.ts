@@ -0,0 +1,124 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import { Token, TradeType } from '@uniswap/sdk-core'
+import { Percentage, Wei } from 'web3-units'
+
+import { Pool } from './pool'
+
+/**
+ * Swap through a single pool, with exact input and output amounts computed using the Engine's integer math.
+ *
+ * @remarks
+ * The trade is quoted at the {@link Pool.lastTimestamp} of `pool`,
+ * which should be the timestamp the swap is expected to be executed at.
+ *
+ * @beta
+ */
+export class Trade {
+  /** Pool which the swap is executed in. */
+  public readonly pool: Pool
+
+  /** Pool after the swap, computed with {@link Pool.applySwap}. */
+  public readonly poolAfter: Pool
+
+  /** Exact input or exact output, the side of the trade which was specified. */
+  public readonly tradeType: TradeType
+
+  /** True if risky tokens are paid to receive stable tokens. */
+  public readonly riskyForStable: boolean
+
+  /** Token paid to the pool. */
+  public readonly inputToken: Token
+
+  /** Token received from the pool. */
+  public readonly outputToken: Token
+
+  /** Amount of `inputToken` paid, including the fee. */
+  public readonly inputAmount: Wei
+
+  /** Amount of `outputToken` received. */
+  public readonly outputAmount: Wei
+
+  /**
+   * Gets a trade which pays an exact amount of `tokenIn`.
+   *
+   * @param pool Pool to swap in.
+   * @param tokenIn Token to pay, either the risky or stable token of `pool`.
+   * @param amountIn Amount of `tokenIn` to pay.
+   *
+   * @beta
+   */
+  public static exactIn(pool: Pool, tokenIn: Token, amountIn: Wei): Trade {
+    const { output } = pool.amountOutX64(tokenIn, amountIn)
+    return new Trade(pool, TradeType.EXACT_INPUT, pool.risky.equals(tokenIn), amountIn, output)
+  }
+
+  /**
+   * Gets a trade which receives an exact amount of `tokenOut`.
+   *
+   * @param pool Pool to swap in.
+   * @param tokenOut Token to receive, either the risky or stable token of `pool`.
+   * @param amountOut Amount of `tokenOut` to receive.
+   *
+   * @beta
+   */
+  public static exactOut(pool: Pool, tokenOut: Token, amountOut: Wei): Trade {
+    const { input } = pool.amountInX64(tokenOut, amountOut)
+    return new Trade(pool, TradeType.EXACT_OUTPUT, !pool.risky.equals(tokenOut), input, amountOut)
+  }
+
+  /**
+   * @throws
+   * Throws if the decimals of an amount do not match its token.
+   * Throws if the swap would be reverted by the Engine.
+   */
+  constructor(pool: Pool, tradeType: TradeType, riskyForStable: boolean, inputAmount: Wei, outputAmount: Wei) {
+    this.pool = pool
+    this.tradeType = tradeType
+    this.riskyForStable = riskyForStable
+    this.inputToken = riskyForStable ? pool.risky : pool.stable
+    this.outputToken = riskyForStable ? pool.stable : pool.risky
+    this.inputAmount = inputAmount
+    this.outputAmount = outputAmount
+    this.poolAfter = pool.applySwap(riskyForStable, inputAmount, outputAmount)
+  }
+
+  /** Average price of the risky token paid or received in this trade, denominated in the stable token. */
+  get executionPrice(): Wei {
+    const [riskyAmount, stableAmount] = this.riskyForStable
+      ? [this.inputAmount, this.outputAmount]
+      : [this.outputAmount, this.inputAmount]
+    const unit = BigNumber.from(10).pow(this.pool.risky.decimals)
+    return new Wei(stableAmount.raw.mul(unit).div(riskyAmount.raw), this.pool.stable.decimals)
+  }
+
+  /** Reported price of the risky token before the trade, denominated in the stable token. */
+  get spotPriceBefore(): Wei | undefined {
+    return this.pool.reportedPriceOfRisky
+  }
+
+  /** Reported price of the risky token after the trade, denominated in the stable token. */
+  get spotPriceAfter(): Wei | undefined {
+    return this.poolAfter.reportedPriceOfRisky
+  }
+
+  /**
+   * Difference between the execution price and the spot price before the trade, as a percentage of the spot price.
+   *
+   * @remarks
+   * Positive if the execution price is worse for the trader than the spot price, which includes the fee.
+   */
+  get priceImpact(): Percentage | undefined {
+    const spot = this.spotPriceBefore
+    if (!spot || spot.raw.isZero()) return undefined
+    const difference = this.riskyForStable
+      ? spot.raw.sub(this.executionPrice.raw)
+      : this.executionPrice.raw.sub(spot.raw)
+    return new Percentage(difference.mul(Percentage.BasisPoints).div(spot.raw))
+  }
+
+  /** Amount of `inputToken` paid as a fee to liquidity providers, as computed by the Engine using `gamma`. */
+  get fee(): Wei {
+    const inputWithFee = this.inputAmount.raw.mul(this.pool.gamma.raw).div(Percentage.BasisPoints)
+    return new Wei(this.inputAmount.raw.sub(inputWithFee), this.inputAmount.decimals)
+  }
+}
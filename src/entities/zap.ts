@@ -0,0 +1,153 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import invariant from 'tiny-invariant'
+import { Token, TradeType } from '@uniswap/sdk-core'
+import { Wei } from 'web3-units'
+
+import { Pool } from './pool'
+import { Trade } from './trade'
+import { solveDecreasing } from '../utils'
+
+/** Token amounts allocated by a {@link Zap} and the liquidity minted for them. */
+export interface ZapAllocation {
+  /** Amount of risky tokens allocated. */
+  delRisky: Wei
+
+  /** Amount of stable tokens allocated. */
+  delStable: Wei
+
+  /** Amount of liquidity minted. */
+  delLiquidity: Wei
+}
+
+/**
+ * Single sided liquidity provision, which swaps part of an amount of one token through a pool and allocates the rest
+ * with the output of the swap, with amounts computed using the Engine's integer math.
+ *
+ * @remarks
+ * The amount swapped is solved so the remaining input and the output of the swap match the ratio of the reserves
+ * after the swap. The zap is quoted at the {@link Pool.lastTimestamp} of `pool`.
+ *
+ * @beta
+ */
+export class Zap {
+  /** Pool which the swap is executed in and liquidity is allocated to. */
+  public readonly pool: Pool
+
+  /** True if risky tokens are paid, so part of them is swapped to stable tokens. */
+  public readonly riskyForStable: boolean
+
+  /** Token paid for the liquidity. */
+  public readonly inputToken: Token
+
+  /** Total amount of `inputToken` paid, swapped and allocated. */
+  public readonly inputAmount: Wei
+
+  /** Exact input swap of part of `inputAmount`. */
+  public readonly trade: Trade
+
+  /** Amount of risky tokens allocated. */
+  public readonly delRisky: Wei
+
+  /** Amount of stable tokens allocated. */
+  public readonly delStable: Wei
+
+  /** Amount of liquidity minted. */
+  public readonly delLiquidity: Wei
+
+  /** Pool after the swap and allocate. */
+  public readonly poolAfter: Pool
+
+  /**
+   * Gets the zap which pays an exact amount of `tokenIn`.
+   *
+   * @param pool Pool to swap in and allocate to.
+   * @param tokenIn Token to pay, either the risky or stable token of `pool`.
+   * @param amountIn Amount of `tokenIn` to pay.
+   *
+   * @throws
+   * Throws if `amountIn` is too small to be split into a swap and an allocate.
+   *
+   * @beta
+   */
+  public static exactIn(pool: Pool, tokenIn: Token, amountIn: Wei): Zap {
+    invariant(amountIn.raw.gt(1), `Amount in is too small: ${amountIn.toString()}`)
+    const riskyForStable = pool.risky.equals(tokenIn)
+    const [reserveIn, reserveOut] = riskyForStable
+      ? [pool.reserveRisky.raw, pool.reserveStable.raw]
+      : [pool.reserveStable.raw, pool.reserveRisky.raw]
+
+    // remaining input per reserve in, minus output per reserve out, decreases as the amount swapped increases
+    const excessOf = (swapAmount: BigNumber): BigNumber => {
+      const { output } = pool.amountOutX64(tokenIn, new Wei(swapAmount, amountIn.decimals))
+      const remaining = amountIn.raw.sub(swapAmount)
+      return remaining.mul(reserveOut.sub(output.raw)).sub(output.raw.mul(reserveIn.add(swapAmount)))
+    }
+
+    // largest amount swapped which leaves at least as much input as output, relative to the reserves
+    const swapAmount = solveDecreasing(excessOf, BigNumber.from(1), amountIn.raw.sub(1))
+    return new Zap(pool, riskyForStable, amountIn, new Wei(swapAmount, amountIn.decimals))
+  }
+
+  /**
+   * @param pool Pool to swap in and allocate to.
+   * @param riskyForStable True if risky tokens are paid.
+   * @param inputAmount Total amount of tokens paid.
+   * @param swapAmount Amount of `inputAmount` to swap, which is less than `inputAmount`.
+   *
+   * @throws
+   * Throws if `swapAmount` is not less than `inputAmount`.
+   * Throws if the swap would be reverted by the Engine, or the allocate would not mint liquidity.
+   */
+  constructor(pool: Pool, riskyForStable: boolean, inputAmount: Wei, swapAmount: Wei) {
+    invariant(swapAmount.lt(inputAmount), `Swap amount exceeds input: ${swapAmount.toString()}`)
+    this.pool = pool
+    this.riskyForStable = riskyForStable
+    this.inputToken = riskyForStable ? pool.risky : pool.stable
+    this.inputAmount = inputAmount
+
+    const tokenIn = this.inputToken
+    const { output } = pool.amountOutX64(tokenIn, swapAmount)
+    this.trade = new Trade(pool, TradeType.EXACT_INPUT, riskyForStable, swapAmount, output)
+
+    const { delRisky, delStable, delLiquidity } = this.getAllocation(output)
+    this.delRisky = delRisky
+    this.delStable = delStable
+    this.delLiquidity = delLiquidity
+    this.poolAfter = this.trade.poolAfter.applyAllocate(delRisky, delStable)
+  }
+
+  /** Amount of `inputToken` which is not swapped or allocated. */
+  get leftoverInput(): Wei {
+    const allocated = this.riskyForStable ? this.delRisky : this.delStable
+    return this.inputAmount.sub(this.trade.inputAmount).sub(allocated)
+  }
+
+  /** Amount of the output token of the swap which is not allocated. */
+  get leftoverOutput(): Wei {
+    const allocated = this.riskyForStable ? this.delStable : this.delRisky
+    return this.trade.outputAmount.sub(allocated)
+  }
+
+  /**
+   * Gets the amounts allocated if `outputAmount` is received from the swap, e.g. the minimum amount out of the swap.
+   *
+   * @remarks
+   * Both amounts are matched to the reserves of the pool after the swap, see {@link Pool.allocationQuote}.
+   *
+   * @param outputAmount Amount received from the swap, at most the quoted output of {@link Zap.trade}.
+   *
+   * @throws
+   * Throws if the swap would be reverted by the Engine.
+   *
+   * @beta
+   */
+  getAllocation(outputAmount: Wei): ZapAllocation {
+    const { pool, riskyForStable } = this
+    const swapAmount = this.trade.inputAmount
+    const poolSwapped = pool.applySwap(riskyForStable, swapAmount, outputAmount)
+    const remaining = this.inputAmount.sub(swapAmount)
+    const [amountRisky, amountStable] = riskyForStable ? [remaining, outputAmount] : [outputAmount, remaining]
+
+    return poolSwapped.allocationQuote(amountRisky, amountStable)
+  }
+}
@@ -0,0 +1,367 @@
+import { Interface, LogDescription } from '@ethersproject/abi'
+import { Log } from '@ethersproject/abstract-provider'
+import { BigNumber } from '@ethersproject/bignumber'
+import { hexZeroPad } from '@ethersproject/bytes'
+import { Percentage, Time, toBN, Wei } from 'web3-units'
+import ManagerArtifact from '@primitivefi/rmm-manager/artifacts/contracts/PrimitiveManager.sol/PrimitiveManager.json'
+
+import { Engine } from './entities/engine'
+import { computePoolId } from './utils'
+
+/** Event of the PrimitiveEngine or the Primitive Manager parsed from a log. */
+export enum EventType {
+  Create = 'Create',
+  Allocate = 'Allocate',
+  Remove = 'Remove',
+  Swap = 'Swap',
+  Deposit = 'Deposit',
+  Withdraw = 'Withdraw',
+  UpdateLastTimestamp = 'UpdateLastTimestamp',
+  TransferSingle = 'TransferSingle',
+  TransferBatch = 'TransferBatch',
+  ApprovalForAll = 'ApprovalForAll',
+  URI = 'URI'
+}
+
+/** Location of a parsed event on chain. */
+export interface EventLocation {
+  /** Address of the contract which emitted the event, the Engine for all Engine events. */
+  address: string
+  blockNumber: number
+  transactionHash: string
+  logIndex: number
+}
+
+/** `Create` of a pool in an Engine. */
+export interface CreateEvent extends EventLocation {
+  type: EventType.Create
+  from: string
+  poolId: string
+  strike: Wei
+  sigma: Percentage
+  maturity: Time
+  gamma: Percentage
+}
+
+/** `Allocate` of liquidity to a pool in an Engine. */
+export interface AllocateEvent extends EventLocation {
+  type: EventType.Allocate
+  from: string
+  recipient: string
+  poolId: string
+  delRisky: Wei
+  delStable: Wei
+}
+
+/** `Remove` of liquidity from a pool in an Engine, which credits the margin of `from`. */
+export interface RemoveEvent extends EventLocation {
+  type: EventType.Remove
+  from: string
+  poolId: string
+  delRisky: Wei
+  delStable: Wei
+}
+
+/** `Swap` in a pool of an Engine. */
+export interface SwapEvent extends EventLocation {
+  type: EventType.Swap
+  from: string
+  recipient: string
+  poolId: string
+  riskyForStable: boolean
+  /** Amount of tokens in, with the decimals of the risky token if `riskyForStable`, else of the stable token. */
+  deltaIn: Wei
+  /** Amount of tokens out, with the decimals of the stable token if `riskyForStable`, else of the risky token. */
+  deltaOut: Wei
+}
+
+/** `Deposit` into a margin account of an Engine. */
+export interface DepositEvent extends EventLocation {
+  type: EventType.Deposit
+  from: string
+  recipient: string
+  delRisky: Wei
+  delStable: Wei
+}
+
+/** `Withdraw` from a margin account of an Engine. */
+export interface WithdrawEvent extends EventLocation {
+  type: EventType.Withdraw
+  from: string
+  recipient: string
+  delRisky: Wei
+  delStable: Wei
+}
+
+/** `UpdateLastTimestamp` of a pool in an Engine. */
+export interface UpdateLastTimestampEvent extends EventLocation {
+  type: EventType.UpdateLastTimestamp
+  poolId: string
+}
+
+/** ERC-1155 `TransferSingle` of a liquidity token of the Manager, which includes mints and burns. */
+export interface TransferSingleEvent extends EventLocation {
+  type: EventType.TransferSingle
+  operator: string
+  from: string
+  to: string
+  poolId: string
+  amount: Wei
+}
+
+/** ERC-1155 `TransferBatch` of liquidity tokens of the Manager. */
+export interface TransferBatchEvent extends EventLocation {
+  type: EventType.TransferBatch
+  operator: string
+  from: string
+  to: string
+  poolIds: string[]
+  amounts: Wei[]
+}
+
+/** ERC-1155 `ApprovalForAll` of the Manager. */
+export interface ApprovalForAllEvent extends EventLocation {
+  type: EventType.ApprovalForAll
+  account: string
+  operator: string
+  approved: boolean
+}
+
+/** ERC-1155 `URI` of a liquidity token of the Manager. */
+export interface URIEvent extends EventLocation {
+  type: EventType.URI
+  poolId: string
+  value: string
+}
+
+/** Any event of the PrimitiveEngine. */
+export type EngineEvent =
+  | CreateEvent
+  | AllocateEvent
+  | RemoveEvent
+  | SwapEvent
+  | DepositEvent
+  | WithdrawEvent
+  | UpdateLastTimestampEvent
+
+/** Any ERC-1155 event of the Primitive Manager. */
+export type ManagerEvent = TransferSingleEvent | TransferBatchEvent | ApprovalForAllEvent | URIEvent
+
+/** Any event of the PrimitiveEngine or the Primitive Manager. */
+export type PrimitiveEvent = EngineEvent | ManagerEvent
+
+/**
+ * Abstract class with static methods to parse logs of the PrimitiveEngine and the Primitive Manager into events.
+ *
+ * @remarks
+ * Engine events are matched to the Engine which emitted them by the log `address`.
+ * Token amounts have the decimals of that Engine's tokens, or {@link EventParser.DEFAULT_DECIMALS}
+ * if it is not supplied. Liquidity amounts always have 18 decimals.
+ *
+ * @beta
+ */
+export abstract class EventParser {
+  /** PrimitiveEngine interface, with the Engine events. */
+  public static ENGINE_INTERFACE: Interface = Engine.INTERFACE
+
+  /** Primitive Manager interface, with the ERC-1155 events. */
+  public static MANAGER_INTERFACE: Interface = new Interface(ManagerArtifact.abi)
+
+  /** Decimals of tokens of Engines which are not supplied to the parsers. */
+  public static readonly DEFAULT_DECIMALS = 18
+
+  private constructor() {}
+
+  /**
+   * Gets the events of `logs` which are emitted by the PrimitiveEngine or the Primitive Manager, in order.
+   *
+   * @param logs Logs of a transaction receipt, or from `getLogs`.
+   * @param engines Engines, or Pools, which emitted the logs.
+   *
+   * @beta
+   */
+  public static parseLogs(logs: Log[], engines: Engine[] = []): PrimitiveEvent[] {
+    return logs.reduce<PrimitiveEvent[]>((events, log) => {
+      const event = EventParser.parseLog(log, engines)
+      return event ? events.concat(event) : events
+    }, [])
+  }
+
+  /**
+   * Gets the event of `log`, if it is emitted by the PrimitiveEngine or the Primitive Manager.
+   *
+   * @param log Log to parse.
+   * @param engines Engines, or Pools, which emitted the log.
+   *
+   * @returns Parsed event, or undefined if the topic of `log` is not a known event.
+   *
+   * @beta
+   */
+  public static parseLog(log: Log, engines: Engine[] = []): PrimitiveEvent | undefined {
+    return EventParser.parseEngineLog(log, engines) ?? EventParser.parseManagerLog(log)
+  }
+
+  /**
+   * Gets the event of `log`, if it is emitted by the PrimitiveEngine.
+   *
+   * @param log Log to parse, with the Engine as its `address`.
+   * @param engines Engines, or Pools, which emitted the log.
+   *
+   * @returns Parsed event, or undefined if the topic of `log` is not an Engine event.
+   *
+   * @beta
+   */
+  public static parseEngineLog(log: Log, engines: Engine[] = []): EngineEvent | undefined {
+    const description = EventParser.tryParse(EventParser.ENGINE_INTERFACE, log)
+    if (!description) return undefined
+
+    const engine = engines.find(e => e.address.toLowerCase() === log.address.toLowerCase())
+    const riskyDecimals = engine ? engine.risky.decimals : EventParser.DEFAULT_DECIMALS
+    const stableDecimals = engine ? engine.stable.decimals : EventParser.DEFAULT_DECIMALS
+    const args = description.args
+    const location = EventParser.getLocation(log)
+
+    switch (description.name) {
+      case 'Create':
+        return {
+          ...location,
+          type: EventType.Create,
+          from: args.from,
+          poolId: computePoolId(
+            log.address,
+            args.strike.toString(),
+            args.sigma.toString(),
+            args.maturity.toString(),
+            args.gamma.toString()
+          ),
+          strike: new Wei(args.strike, stableDecimals),
+          sigma: new Percentage(toBN(args.sigma)),
+          maturity: new Time(Number(args.maturity)),
+          gamma: new Percentage(toBN(args.gamma))
+        }
+      case 'Allocate':
+        return {
+          ...location,
+          type: EventType.Allocate,
+          from: args.from,
+          recipient: args.recipient,
+          poolId: args.poolId,
+          delRisky: new Wei(args.delRisky, riskyDecimals),
+          delStable: new Wei(args.delStable, stableDecimals)
+        }
+      case 'Remove':
+        return {
+          ...location,
+          type: EventType.Remove,
+          from: args.from,
+          poolId: args.poolId,
+          delRisky: new Wei(args.delRisky, riskyDecimals),
+          delStable: new Wei(args.delStable, stableDecimals)
+        }
+      case 'Swap':
+        return {
+          ...location,
+          type: EventType.Swap,
+          from: args.from,
+          recipient: args.recipient,
+          poolId: args.poolId,
+          riskyForStable: args.riskyForStable,
+          deltaIn: new Wei(args.deltaIn, args.riskyForStable ? riskyDecimals : stableDecimals),
+          deltaOut: new Wei(args.deltaOut, args.riskyForStable ? stableDecimals : riskyDecimals)
+        }
+      case 'Deposit':
+      case 'Withdraw':
+        return {
+          ...location,
+          type: description.name === 'Deposit' ? EventType.Deposit : EventType.Withdraw,
+          from: args.from,
+          recipient: args.recipient,
+          delRisky: new Wei(args.delRisky, riskyDecimals),
+          delStable: new Wei(args.delStable, stableDecimals)
+        }
+      case 'UpdateLastTimestamp':
+        return { ...location, type: EventType.UpdateLastTimestamp, poolId: args.poolId }
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * Gets the event of `log`, if it is an ERC-1155 event of the Primitive Manager.
+   *
+   * @remarks
+   * Token ids of the Manager are the poolIds, so they are returned as 32 byte hex strings.
+   *
+   * @param log Log to parse, with the Manager as its `address`.
+   *
+   * @returns Parsed event, or undefined if the topic of `log` is not a Manager event.
+   *
+   * @beta
+   */
+  public static parseManagerLog(log: Log): ManagerEvent | undefined {
+    const description = EventParser.tryParse(EventParser.MANAGER_INTERFACE, log)
+    if (!description) return undefined
+
+    const args = description.args
+    const location = EventParser.getLocation(log)
+
+    switch (description.name) {
+      case 'TransferSingle':
+        return {
+          ...location,
+          type: EventType.TransferSingle,
+          operator: args.operator,
+          from: args.from,
+          to: args.to,
+          poolId: EventParser.toPoolId(args.id),
+          amount: new Wei(args.value, 18)
+        }
+      case 'TransferBatch':
+        return {
+          ...location,
+          type: EventType.TransferBatch,
+          operator: args.operator,
+          from: args.from,
+          to: args.to,
+          poolIds: (args.ids as BigNumber[]).map(EventParser.toPoolId),
+          amounts: (args[4] as BigNumber[]).map(value => new Wei(value, 18))
+        }
+      case 'ApprovalForAll':
+        return {
+          ...location,
+          type: EventType.ApprovalForAll,
+          account: args.account,
+          operator: args.operator,
+          approved: args.approved
+        }
+      case 'URI':
+        return { ...location, type: EventType.URI, poolId: EventParser.toPoolId(args.id), value: args.value }
+      default:
+        return undefined
+    }
+  }
+
+  /** Gets the description of `log` from `contractInterface`, or undefined if its topic is not in the interface. */
+  private static tryParse(contractInterface: Interface, log: Log): LogDescription | undefined {
+    try {
+      return contractInterface.parseLog(log)
+    } catch (error) {
+      return undefined
+    }
+  }
+
+  /** Gets the location fields of `log`. */
+  private static getLocation(log: Log): EventLocation {
+    return {
+      address: log.address,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex
+    }
+  }
+
+  /** Gets the poolId of an ERC-1155 token id of the Manager. */
+  private static toPoolId(id: BigNumber): string {
+    return hexZeroPad(id.toHexString(), 32)
+  }
+}
@@ -1,8 +1,13 @@
 export * from './entities'
+export * from './calldataDecoder'
+export * from './eventParser'
 export * from './factoryManager'
 export * from './positionDescriptorManager'
 export * from './positionRendererManager'
+export * from './poolStore'
 export * from './peripheryManager'
+export * from './permit'
+export * from './router'
 export * from './selfPermit'
 export * from './swapManager'
 export * from './utils'
@@ -4,13 +4,15 @@ import { AddressZero } from '@ethersproject/constants'
 import { Signer } from '@ethersproject/abstract-signer'
 import { ContractFactory } from '@ethersproject/contracts'
 import invariant from 'tiny-invariant'
-import { parseWei, Percentage, toBN, Wei } from 'web3-units'
+import { parsePercentage, parseWei, Percentage, Time, toBN, Wei } from 'web3-units'
 import { NativeCurrency } from '@uniswap/sdk-core'
 import ManagerArtifact from '@primitivefi/rmm-manager/artifacts/contracts/PrimitiveManager.sol/PrimitiveManager.json'
 
 import { Engine } from './entities/engine'
 import { Pool, PoolSides } from './entities/pool'
 import { Swaps } from './entities/swaps'
+import { Settlement } from './entities/settlement'
+import { Position } from './entities/position'
 import { MethodParameters, validateAndParseAddress, validateDecimals } from './utils'
 
 import { PermitOptions, SelfPermit } from './selfPermit'
@@ -105,6 +107,36 @@ export interface RemoveOptions extends LiquidityOptions, RecipientOptions, Nativ
   slippageTolerance: Percentage
 }
 
+/**
+ * Close out argument details, to remove all liquidity from an expired pool and withdraw the tokens.
+ *
+ * @param delLiquidity Liquidity balance of the sender in the pool, which is entirely removed.
+ * @param slippageTolerance Percentage deviation from the expected token amounts being removed, defaults to 0.
+ * @param timestamp Timestamp in seconds the transaction is expected to be mined at, defaults to now.
+ * @param recipient Address that will receive the withdrawn tokens.
+ * @param useNative Whether or not a native protocol token (e.g. Ether) should be used with a wrapped token version.
+ *
+ * @beta
+ */
+export interface CloseOutOptions extends RecipientOptions, NativeOptions {
+  delLiquidity: Wei
+  slippageTolerance?: Percentage
+  timestamp?: Time
+}
+
+/**
+ * Remove position argument details, to remove all liquidity of a position and withdraw it with the margin.
+ *
+ * @param slippageTolerance Percentage deviation from the expected token amounts being removed from the pool.
+ * @param recipient Address that will receive the withdrawn tokens.
+ * @param useNative Whether or not a native protocol token (e.g. Ether) should be used with a wrapped token version.
+ *
+ * @beta
+ */
+export interface RemovePositionOptions extends RecipientOptions, NativeOptions {
+  slippageTolerance: Percentage
+}
+
 /** Transfer ERC-1155 liquidity token argument details. */
 export interface SafeTransferOptions {
   sender: string
@@ -521,6 +553,84 @@ export abstract class PeripheryManager extends SelfPermit {
     }
   }
 
+  /**
+   * Gets calldata and value to send for a transaction to remove all liquidity from an expired pool and withdraw it.
+   *
+   * @remarks
+   * The reserves of an expired pool only change from swaps within the {@link Engine.BUFFER},
+   * so the slippage tolerance can be 0 once {@link Settlement.isBufferOpen} is false.
+   *
+   * @param pool Pool entity class which the liquidity is removed from.
+   * @param options {@link CloseOutOptions} Close out argument details.
+   *
+   * @throws
+   * Throws if `pool` is not expired at {@link CloseOutOptions.timestamp}.
+   * Throws if {@link CloseOutOptions.delLiquidity} is zero or does not have 18 decimals.
+   * Throws if {@link RecipientOptions.recipient} is the Zero address or is an invalid address.
+   *
+   * @beta
+   */
+  public static closeOutCallParameters(pool: Pool, options: CloseOutOptions): MethodParameters {
+    invariant(Settlement.isExpired(pool, options.timestamp), `Pool is not expired: ${pool.poolId}`)
+    validateDecimals(options.delLiquidity, pool)
+
+    const { delRisky, delStable } = pool.liquidityQuote(options.delLiquidity, PoolSides.RMM_LP)
+    return PeripheryManager.removeCallParameters(pool, {
+      recipient: options.recipient,
+      useNative: options.useNative,
+      delLiquidity: options.delLiquidity,
+      delRisky,
+      delStable,
+      expectedRisky: parseWei(0, pool.risky.decimals),
+      expectedStable: parseWei(0, pool.stable.decimals),
+      toMargin: false,
+      slippageTolerance: options.slippageTolerance ?? parsePercentage(0)
+    })
+  }
+
+  /**
+   * Gets calldata and value to send for a transaction to remove all liquidity of `position` and withdraw it with the margin.
+   *
+   * @remarks
+   * Removed tokens are deposited to the margin of the sender, so the margin and the min amounts removed are withdrawn.
+   * The margin of the sender is shared by all pools of the Engine, so it is assumed to be the margin of `position`.
+   *
+   * @param position {@link Position} Liquidity and margin to exit.
+   * @param options {@link RemovePositionOptions} Remove position argument details.
+   *
+   * @throws
+   * Throws if `position` is empty.
+   * Throws if {@link RecipientOptions.recipient} is the Zero address or is an invalid address.
+   *
+   * @beta
+   */
+  public static removePositionCallParameters(position: Position, options: RemovePositionOptions): MethodParameters {
+    invariant(!position.isEmpty, 'Position is empty')
+    const { pool, liquidity, marginRisky, marginStable } = position
+
+    if (liquidity.raw.isZero()) {
+      return PeripheryManager.withdrawCallParameters(pool, {
+        recipient: options.recipient,
+        amountRisky: marginRisky,
+        amountStable: marginStable,
+        useNative: options.useNative
+      })
+    }
+
+    const { delRisky, delStable } = position.underlying
+    return PeripheryManager.removeCallParameters(pool, {
+      recipient: options.recipient,
+      delLiquidity: liquidity,
+      delRisky,
+      delStable,
+      expectedRisky: marginRisky,
+      expectedStable: marginStable,
+      toMargin: false,
+      slippageTolerance: options.slippageTolerance,
+      useNative: options.useNative
+    })
+  }
+
   /**
    * Gets calldata for a transaction to transfer ERC-1155 tokens of Primitive Manager.
    *
@@ -0,0 +1,234 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber'
+import { TypedDataDomain, TypedDataField } from '@ethersproject/abstract-signer'
+import { getAddress, splitSignature, verifyTypedData } from 'ethers/lib/utils'
+import invariant from 'tiny-invariant'
+import { Token } from '@uniswap/sdk-core'
+
+import { AllowedPermitArguments, PermitType, RSV, StandardPermitArguments } from './selfPermit'
+import { validateAndParseAddress } from './utils'
+
+/** EIP-712 domain of a token's `permit`. */
+export interface PermitDomainOptions {
+  /** Name of the token in its EIP-712 domain, which can be different from the name of the Token entity. */
+  name: string
+
+  /** Version of the token in its EIP-712 domain, defaults to '1'. */
+  version?: string
+
+  /** Chain id of the token in its EIP-712 domain, defaults to the chain id of the Token entity. */
+  chainId?: number
+}
+
+/** {@link https://eips.ethereum.org/EIPS/eip-2612} permit details. */
+export interface StandardPermitOptions extends PermitDomainOptions {
+  /** Address which signs the permit and owns the tokens. */
+  owner: string
+
+  /** Address to approve, usually the Manager. */
+  spender: string
+
+  /** Raw amount to approve. */
+  amount: BigNumberish
+
+  /** Current permit nonce of `owner` in the token. */
+  nonce: BigNumberish
+
+  /** Timestamp to void the permit signature. */
+  deadline: BigNumberish
+}
+
+/** DAI-style permit details, which approve the maximum amount. */
+export interface AllowedPermitOptions extends PermitDomainOptions {
+  /** Address which signs the permit and owns the tokens. */
+  holder: string
+
+  /** Address to approve, usually the Manager. */
+  spender: string
+
+  /** Current permit nonce of `holder` in the token. */
+  nonce: BigNumberish
+
+  /** Timestamp to void the permit signature, or zero for no expiry. */
+  expiry: BigNumberish
+}
+
+/** EIP-712 typed data to sign with `signer._signTypedData(domain, types, values)` or `eth_signTypedData_v4`. */
+export interface PermitTypedData {
+  domain: TypedDataDomain
+  types: Record<string, TypedDataField[]>
+  values: Record<string, any>
+}
+
+/**
+ * Abstract class with static methods to build the typed data of token permits and parse their signatures.
+ *
+ * @remarks
+ * The parsed arguments are used as the {@link PermitOptions} of the Manager's call parameters, such as
+ * {@link PeripheryManager.depositCallParameters}, which approve the Manager as spender in the same transaction.
+ *
+ * @beta
+ */
+export abstract class Permit {
+  /** EIP-712 types of an {@link https://eips.ethereum.org/EIPS/eip-2612} `permit`. */
+  public static STANDARD_PERMIT_TYPES: Record<string, TypedDataField[]> = {
+    Permit: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' }
+    ]
+  }
+
+  /** EIP-712 types of a DAI-style `permit`. */
+  public static ALLOWED_PERMIT_TYPES: Record<string, TypedDataField[]> = {
+    Permit: [
+      { name: 'holder', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'expiry', type: 'uint256' },
+      { name: 'allowed', type: 'bool' }
+    ]
+  }
+
+  private constructor() {}
+
+  /**
+   * Gets the typed data of an {@link https://eips.ethereum.org/EIPS/eip-2612} `permit` of `token`.
+   *
+   * @param token Token to permit, which is the verifying contract of the domain.
+   * @param options {@link StandardPermitOptions} Permit details.
+   *
+   * @throws
+   * Throws if `owner` or `spender` is an invalid address.
+   *
+   * @beta
+   */
+  public static getStandardPermitData(token: Token, options: StandardPermitOptions): PermitTypedData {
+    return {
+      domain: Permit.getDomain(token, options),
+      types: Permit.STANDARD_PERMIT_TYPES,
+      values: {
+        owner: validateAndParseAddress(options.owner),
+        spender: validateAndParseAddress(options.spender),
+        value: BigNumber.from(options.amount).toString(),
+        nonce: BigNumber.from(options.nonce).toString(),
+        deadline: BigNumber.from(options.deadline).toString()
+      }
+    }
+  }
+
+  /**
+   * Gets the typed data of a DAI-style `permit` of `token`, which allows `spender` to spend any amount.
+   *
+   * @param token Token to permit, which is the verifying contract of the domain.
+   * @param options {@link AllowedPermitOptions} Permit details.
+   *
+   * @throws
+   * Throws if `holder` or `spender` is an invalid address.
+   *
+   * @beta
+   */
+  public static getAllowedPermitData(token: Token, options: AllowedPermitOptions): PermitTypedData {
+    return {
+      domain: Permit.getDomain(token, options),
+      types: Permit.ALLOWED_PERMIT_TYPES,
+      values: {
+        holder: validateAndParseAddress(options.holder),
+        spender: validateAndParseAddress(options.spender),
+        nonce: BigNumber.from(options.nonce).toString(),
+        expiry: BigNumber.from(options.expiry).toString(),
+        allowed: true
+      }
+    }
+  }
+
+  /**
+   * Gets the `v`, `r` and `s` components of a 65 byte signature or a 64 byte {@link https://eips.ethereum.org/EIPS/eip-2098} compact signature.
+   *
+   * @throws
+   * Throws if `signature` is not 64 or 65 bytes, or has an invalid `v`.
+   *
+   * @beta
+   */
+  public static splitSignature(signature: string): RSV {
+    const { v, r, s } = splitSignature(signature)
+    invariant(v === 27 || v === 28, `Invalid signature v: ${v}`)
+    return { v: v as 27 | 28, r, s }
+  }
+
+  /**
+   * Gets the address which signed `data`.
+   *
+   * @param data Typed data of the permit.
+   * @param signature 65 byte or 64 byte compact signature of `data`.
+   *
+   * @beta
+   */
+  public static recoverSigner(data: PermitTypedData, signature: string): string {
+    const { v, r, s } = Permit.splitSignature(signature)
+    return verifyTypedData(data.domain, data.types, data.values, { v, r, s })
+  }
+
+  /**
+   * Gets the arguments of `SelfPermit.selfPermit` from an EIP-2612 permit and its signature.
+   *
+   * @param data Typed data from {@link Permit.getStandardPermitData}.
+   * @param signature 65 byte or 64 byte compact signature of `data`.
+   *
+   * @throws
+   * Throws if `data` is not an EIP-2612 permit.
+   * Throws if `signature` is not signed by the `owner` of the permit.
+   *
+   * @beta
+   */
+  public static toStandardPermitArguments(data: PermitTypedData, signature: string): StandardPermitArguments {
+    invariant('owner' in data.values && 'value' in data.values, 'Not an EIP-2612 permit')
+    Permit.verifySigner(data, signature, data.values.owner)
+    return {
+      ...Permit.splitSignature(signature),
+      type: PermitType.STANDARD,
+      amount: BigNumber.from(data.values.value),
+      deadline: BigNumber.from(data.values.deadline)
+    }
+  }
+
+  /**
+   * Gets the arguments of `SelfPermit.selfPermitAllowed` from a DAI-style permit and its signature.
+   *
+   * @param data Typed data from {@link Permit.getAllowedPermitData}.
+   * @param signature 65 byte or 64 byte compact signature of `data`.
+   *
+   * @throws
+   * Throws if `data` is not a DAI-style permit.
+   * Throws if `signature` is not signed by the `holder` of the permit.
+   *
+   * @beta
+   */
+  public static toAllowedPermitArguments(data: PermitTypedData, signature: string): AllowedPermitArguments {
+    invariant('holder' in data.values && 'allowed' in data.values, 'Not a DAI-style permit')
+    Permit.verifySigner(data, signature, data.values.holder)
+    return {
+      ...Permit.splitSignature(signature),
+      type: PermitType.ALLOWED,
+      nonce: BigNumber.from(data.values.nonce),
+      expiry: BigNumber.from(data.values.expiry)
+    }
+  }
+
+  /** Gets the EIP-712 domain of `token`. */
+  private static getDomain(token: Token, options: PermitDomainOptions): TypedDataDomain {
+    return {
+      name: options.name,
+      version: options.version ?? '1',
+      chainId: options.chainId ?? token.chainId,
+      verifyingContract: token.address
+    }
+  }
+
+  /** Throws if `signature` of `data` is not signed by `expected`. */
+  private static verifySigner(data: PermitTypedData, signature: string, expected: string): void {
+    const signer = Permit.recoverSigner(data, signature)
+    invariant(getAddress(signer) === getAddress(expected), `Signer ${signer} is not the permit owner ${expected}`)
+  }
+}
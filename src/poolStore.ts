@@ -0,0 +1,357 @@
+import invariant from 'tiny-invariant'
+import { Log } from '@ethersproject/abstract-provider'
+import { AddressZero } from '@ethersproject/constants'
+import { parseWei, Time, Wei } from 'web3-units'
+
+import { Engine } from './entities/engine'
+import { Pool, PoolJSON } from './entities/pool'
+import { EngineEvent, EventParser, EventType, RemoveEvent, TransferSingleEvent } from './eventParser'
+
+/**
+ * Arguments of `PrimitiveEngine.create` which are not in its `Create` event.
+ *
+ * @remarks
+ * Can be decoded from the calldata of the transaction with {@link CalldataDecoder.decode}.
+ */
+export interface PoolCreation {
+  /** Amount of risky tokens per 1e18 liquidity, with the risky token's decimals. */
+  riskyPerLp: Wei
+
+  /** Amount of liquidity minted, including the burned min liquidity. */
+  delLiquidity: Wei
+}
+
+/** Change of a pool by an event, used to revert the event. */
+export interface PoolStoreEntry {
+  blockNumber: number
+  logIndex: number
+  poolId: string
+  /** Serialized pool before the event, or null if the event created the pool. */
+  previous: PoolJSON | null
+}
+
+/** Serializable state of a {@link PoolStore}, from {@link PoolStore.snapshot}. */
+export interface PoolStoreSnapshot {
+  /** Block number of the last applied event. */
+  blockNumber: number
+
+  /** Log index of the last applied event. */
+  logIndex: number
+
+  /** Block number at or below which events can no longer be reverted. */
+  finalizedBlockNumber: number
+
+  /** Serialized pools keyed by poolId. */
+  pools: { [poolId: string]: PoolJSON }
+
+  /** Changes of the events after the finalized block, in order. */
+  entries: PoolStoreEntry[]
+}
+
+/**
+ * In-memory store of the current Pool entities of Engines, updated by their events.
+ *
+ * @remarks
+ * Events must be applied in the order they are emitted, with the timestamp of their block.
+ * Their amounts are applied without repeating the checks of the Engine, which already executed them.
+ * The `Create` event does not include the reserves, so it is applied with the {@link PoolCreation} of its call.
+ * The `Remove` event does not include the liquidity, so it is computed as the smallest liquidity which removes the
+ * amounts of the event. If the liquidity is removed by the Manager, its ERC-1155 burn follows in the same transaction
+ * and has the exact liquidity, which replaces the computed one. Otherwise, the liquidity can be less than the Engine's
+ * by rounding, while the reserves are exact.
+ * Deposits and withdrawals only change margin accounts, so they are ignored.
+ *
+ * @beta
+ */
+export class PoolStore {
+  /** Engines of the pools, keyed by their lowercase address. */
+  private readonly engines: Map<string, Engine>
+
+  /** Current pools keyed by poolId. */
+  private pools: Map<string, Pool> = new Map()
+
+  /** Changes of the applied events after the finalized block, in order. */
+  private entries: PoolStoreEntry[] = []
+
+  private blockNumber = -1
+  private logIndex = -1
+  private finalizedBlockNumber = -1
+
+  /** Last applied `Remove` event and its pool before the event, if it was the last applied event. */
+  private lastRemove?: { event: RemoveEvent; previous: Pool }
+
+  /**
+   * @param engines Engines which emit the events, used for their tokens and to create their pools.
+   */
+  constructor(engines: Engine[]) {
+    this.engines = new Map(engines.map(engine => [engine.address.toLowerCase(), engine]))
+  }
+
+  /** Block number of the last applied event, or -1 if none are applied. */
+  get lastBlockNumber(): number {
+    return this.blockNumber
+  }
+
+  /** Current pools of the store. */
+  get all(): Pool[] {
+    return Array.from(this.pools.values())
+  }
+
+  /**
+   * Gets the current pool with `poolId`, or undefined if it is not created.
+   *
+   * @beta
+   */
+  get(poolId: string): Pool | undefined {
+    return this.pools.get(poolId.toLowerCase())
+  }
+
+  /**
+   * Parses `log` with the Engines of this store and applies its event, if it is an event of one of the Engines
+   * or the Manager's burn of the liquidity of the last applied `Remove` event.
+   *
+   * @remarks
+   * Other logs are ignored, e.g. the events of Engines which are not in this store, so all the logs of a receipt
+   * can be applied.
+   *
+   * @param log Log emitted by one of the Engines or the Manager.
+   * @param timestamp Timestamp in seconds of the block of `log`.
+   * @param creation Arguments of the call, required if `log` is a `Create` event.
+   *
+   * @returns True if `log` was applied.
+   *
+   * @beta
+   */
+  applyLog(log: Log, timestamp: number, creation?: PoolCreation): boolean {
+    const isEngineLog = this.engines.has(log.address.toLowerCase())
+    const event = isEngineLog ? EventParser.parseEngineLog(log, Array.from(this.engines.values())) : undefined
+    if (event) {
+      this.apply(event, timestamp, creation)
+      return true
+    }
+
+    const burn = EventParser.parseManagerLog(log)
+    if (burn?.type !== EventType.TransferSingle || !this.isBurnOfLastRemove(burn)) return false
+    this.apply(burn, timestamp)
+    return true
+  }
+
+  /**
+   * Applies `event` to its pool.
+   *
+   * @remarks
+   * A `TransferSingle` event is only applied if it is the Manager's burn of the liquidity of the last applied
+   * `Remove` event, see {@link PoolStore.applyLog}. It replaces the computed liquidity of the remove.
+   *
+   * @param event Event emitted by one of the Engines, from {@link EventParser.parseEngineLog}, or by the Manager.
+   * @param timestamp Timestamp in seconds of the block of `event`.
+   * @param creation Arguments of the call, required if `event` is a `Create` event.
+   *
+   * @throws
+   * Throws if `event` is not after the last applied event.
+   * Throws if `event` is a `Create` event without `creation`, or of an Engine which is not in this store.
+   * Throws if the pool of `event` is not created, or is already created by a `Create` event.
+   * Throws if `event` is a `TransferSingle` event which is not the burn of the last applied `Remove` event.
+   *
+   * @beta
+   */
+  apply(event: EngineEvent | TransferSingleEvent, timestamp: number, creation?: PoolCreation): void {
+    invariant(
+      event.blockNumber > this.blockNumber ||
+        (event.blockNumber === this.blockNumber && event.logIndex > this.logIndex),
+      `Event is not after the last applied event: ${event.blockNumber}, ${event.logIndex}`
+    )
+
+    if (event.type === EventType.TransferSingle) {
+      invariant(this.isBurnOfLastRemove(event), `Not the burn of the last remove: ${event.transactionHash}`)
+      const { event: remove, previous } = this.lastRemove as { event: RemoveEvent; previous: Pool }
+      this.pools.set(remove.poolId.toLowerCase(), PoolStore.applyRemove(previous, remove, event.amount))
+      this.lastRemove = undefined
+      this.blockNumber = event.blockNumber
+      this.logIndex = event.logIndex
+      return
+    }
+
+    const time = new Time(timestamp)
+    const next = this.getNext(event, time, creation)
+    this.lastRemove = undefined
+    if (next) {
+      const poolId = next.poolId.toLowerCase()
+      const previous = this.pools.get(poolId)
+      invariant(event.type !== EventType.Create || !previous, `Pool is already created: ${poolId}`)
+      this.entries.push({
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        poolId,
+        previous: previous ? previous.toJSON() : null
+      })
+      this.pools.set(poolId, next)
+      if (event.type === EventType.Remove && previous) this.lastRemove = { event, previous }
+    }
+
+    this.blockNumber = event.blockNumber
+    this.logIndex = event.logIndex
+  }
+
+  /**
+   * Reverts the events of blocks after `blockNumber`, e.g. after a reorg.
+   *
+   * @throws
+   * Throws if `blockNumber` is before the finalized block.
+   *
+   * @beta
+   */
+  revertTo(blockNumber: number): void {
+    invariant(
+      blockNumber >= this.finalizedBlockNumber,
+      `Cannot revert before the finalized block: ${this.finalizedBlockNumber}`
+    )
+
+    while (this.entries.length > 0 && this.entries[this.entries.length - 1].blockNumber > blockNumber) {
+      const entry = this.entries.pop() as PoolStoreEntry
+      if (entry.previous) this.pools.set(entry.poolId, Pool.fromJSON(entry.previous))
+      else this.pools.delete(entry.poolId)
+    }
+    this.lastRemove = undefined
+
+    // the block at `blockNumber` is kept entirely, so the next event must be in a later block
+    if (this.blockNumber > blockNumber) {
+      this.blockNumber = blockNumber
+      this.logIndex = Number.MAX_SAFE_INTEGER
+    }
+  }
+
+  /**
+   * Drops the changes of events at or before `blockNumber`, which can no longer be reverted.
+   *
+   * @beta
+   */
+  finalize(blockNumber: number): void {
+    this.finalizedBlockNumber = Math.max(this.finalizedBlockNumber, blockNumber)
+    this.entries = this.entries.filter(entry => entry.blockNumber > this.finalizedBlockNumber)
+  }
+
+  /**
+   * Gets the serializable state of this store, which can be restored with {@link PoolStore.restore}.
+   *
+   * @beta
+   */
+  snapshot(): PoolStoreSnapshot {
+    const pools: { [poolId: string]: PoolJSON } = {}
+    this.pools.forEach((pool, poolId) => (pools[poolId] = pool.toJSON()))
+    return {
+      blockNumber: this.blockNumber,
+      logIndex: this.logIndex,
+      finalizedBlockNumber: this.finalizedBlockNumber,
+      pools,
+      entries: this.entries.map(entry => ({ ...entry }))
+    }
+  }
+
+  /**
+   * Replaces the state of this store with `snapshot`.
+   *
+   * @beta
+   */
+  restore(snapshot: PoolStoreSnapshot): void {
+    this.pools = new Map(Object.keys(snapshot.pools).map(poolId => [poolId, Pool.fromJSON(snapshot.pools[poolId])]))
+    this.entries = snapshot.entries.map(entry => ({ ...entry }))
+    this.blockNumber = snapshot.blockNumber
+    this.logIndex = snapshot.logIndex
+    this.finalizedBlockNumber = snapshot.finalizedBlockNumber
+    this.lastRemove = undefined
+  }
+
+  /** Gets the pool after `event`, or undefined if the event does not change a pool. */
+  private getNext(event: EngineEvent, time: Time, creation?: PoolCreation): Pool | undefined {
+    switch (event.type) {
+      case EventType.Create: {
+        invariant(creation, 'Create event requires the pool creation arguments')
+        const engine = this.engines.get(event.address.toLowerCase())
+        invariant(engine, `Unknown engine: ${event.address}`)
+        return Pool.applyCreate(
+          engine.chainId,
+          engine.factory,
+          engine.risky,
+          engine.stable,
+          {
+            strike: event.strike.raw.toString(),
+            sigma: event.sigma.raw.toString(),
+            maturity: event.maturity.raw.toString(),
+            gamma: event.gamma.raw.toString(),
+            lastTimestamp: time.raw.toString()
+          },
+          creation.riskyPerLp,
+          creation.delLiquidity
+        )
+      }
+      case EventType.Allocate: {
+        const pool = this.getPool(event.poolId)
+        const liquidity0 = event.delRisky.mul(pool.liquidity).div(pool.reserveRisky)
+        const liquidity1 = event.delStable.mul(pool.liquidity).div(pool.reserveStable)
+        const delLiquidity = new Wei(liquidity0.lt(liquidity1) ? liquidity0.raw : liquidity1.raw, 18)
+        return pool.applyDeltas(event.delRisky, event.delStable, delLiquidity)
+      }
+      case EventType.Remove: {
+        const pool = this.getPool(event.poolId)
+        return PoolStore.applyRemove(pool, event, PoolStore.getRemovedLiquidity(pool, event))
+      }
+      case EventType.Swap: {
+        const pool = this.getPool(event.poolId)
+        const { riskyForStable, deltaIn, deltaOut } = event
+        const [delRisky, delStable] = riskyForStable ? [deltaIn, negate(deltaOut)] : [negate(deltaOut), deltaIn]
+        const lastTimestamp = time.gt(pool.maturity) ? pool.maturity : time
+        return pool.applyDeltas(delRisky, delStable, parseWei(0, 18), lastTimestamp)
+      }
+      case EventType.UpdateLastTimestamp:
+        return this.getPool(event.poolId).applyUpdateLastTimestamp(time)
+      default:
+        return undefined
+    }
+  }
+
+  /** True if `event` is the Manager's burn of the liquidity removed by the last applied `Remove` event. */
+  private isBurnOfLastRemove(event: TransferSingleEvent): boolean {
+    const remove = this.lastRemove?.event
+    return (
+      typeof remove !== 'undefined' &&
+      event.to === AddressZero &&
+      event.transactionHash === remove.transactionHash &&
+      event.poolId.toLowerCase() === remove.poolId.toLowerCase()
+    )
+  }
+
+  /** Gets the current pool with `poolId`, or throws if it is not created. */
+  private getPool(poolId: string): Pool {
+    const pool = this.get(poolId)
+    invariant(pool, `Unknown pool: ${poolId}`)
+    return pool
+  }
+
+  /** Gets `pool` after the amounts of `event` and `delLiquidity` are removed. */
+  private static applyRemove(pool: Pool, event: RemoveEvent, delLiquidity: Wei): Pool {
+    return pool.applyDeltas(negate(event.delRisky), negate(event.delStable), negate(delLiquidity))
+  }
+
+  /**
+   * Gets the smallest liquidity for which `PrimitiveEngine.remove` returns the amounts of `event`.
+   *
+   * {@internal}
+   */
+  private static getRemovedLiquidity(pool: Pool, event: RemoveEvent): Wei {
+    const ceilDiv = (amount: Wei, reserve: Wei) =>
+      amount.raw
+        .mul(pool.liquidity.raw)
+        .add(reserve.raw)
+        .sub(1)
+        .div(reserve.raw)
+    const fromRisky = ceilDiv(event.delRisky, pool.reserveRisky)
+    const fromStable = ceilDiv(event.delStable, pool.reserveStable)
+    return new Wei(fromRisky.gt(fromStable) ? fromRisky : fromStable, pool.liquidity.decimals)
+  }
+}
+
+/** Gets the negative of `amount`. */
+function negate(amount: Wei): Wei {
+  return new Wei(amount.raw.mul(-1), amount.decimals)
+}
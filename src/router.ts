@@ -0,0 +1,158 @@
+import invariant from 'tiny-invariant'
+import { Token } from '@uniswap/sdk-core'
+import { parseWei, Wei } from 'web3-units'
+
+import { Pool } from './entities/pool'
+import { Trade } from './entities/trade'
+
+/**
+ * Abstract class which implements static methods to find the best trades across pools of the same pair.
+ *
+ * @remarks
+ * Pools of the same pair share an Engine, and differ by their calibration.
+ * Use {@link SwapManager.swapCallParameters} to get the calldata of the returned trades.
+ *
+ * @beta
+ */
+export abstract class Router {
+  private constructor() {}
+
+  /**
+   * Gets the trade in a single pool with the largest output for an exact amount in.
+   *
+   * @param pools Pools of the same Engine to route through.
+   * @param tokenIn Token to pay.
+   * @param amountIn Amount of `tokenIn` to pay.
+   *
+   * @throws
+   * Throws if `pools` is empty or do not share the same Engine.
+   * Throws if no pool can be swapped in for `amountIn`.
+   *
+   * @beta
+   */
+  public static bestTradeExactIn(pools: Pool[], tokenIn: Token, amountIn: Wei): Trade {
+    Router.validatePools(pools, tokenIn)
+
+    let best: Trade | undefined = undefined
+    for (const pool of pools) {
+      const trade = Router.tryTrade(() => Trade.exactIn(pool, tokenIn, amountIn))
+      if (trade && (!best || trade.outputAmount.gt(best.outputAmount))) best = trade
+    }
+
+    invariant(best, `No route for amount in: ${amountIn.toString()}`)
+    return best
+  }
+
+  /**
+   * Gets the trade in a single pool with the smallest input for an exact amount out.
+   *
+   * @param pools Pools of the same Engine to route through.
+   * @param tokenOut Token to receive.
+   * @param amountOut Amount of `tokenOut` to receive.
+   *
+   * @throws
+   * Throws if `pools` is empty or do not share the same Engine.
+   * Throws if no pool can be swapped in for `amountOut`.
+   *
+   * @beta
+   */
+  public static bestTradeExactOut(pools: Pool[], tokenOut: Token, amountOut: Wei): Trade {
+    Router.validatePools(pools, tokenOut)
+
+    let best: Trade | undefined = undefined
+    for (const pool of pools) {
+      const trade = Router.tryTrade(() => Trade.exactOut(pool, tokenOut, amountOut))
+      if (trade && (!best || trade.inputAmount.lt(best.inputAmount))) best = trade
+    }
+
+    invariant(best, `No route for amount out: ${amountOut.toString()}`)
+    return best
+  }
+
+  /**
+   * Gets trades which split an exact amount in across pools to maximize the total output.
+   *
+   * @remarks
+   * The amount in is split into `parts` equal parts, and each part is added to the pool
+   * which has the largest increase in output from it. A larger amount of `parts` finds a better split,
+   * at the cost of more quotes.
+   *
+   * @param pools Pools of the same Engine to route through.
+   * @param tokenIn Token to pay.
+   * @param amountIn Total amount of `tokenIn` to pay.
+   * @param parts Amount of parts to split `amountIn` into.
+   *
+   * @returns Trades with a non-zero amount in, which have a total input of `amountIn`.
+   *
+   * @throws
+   * Throws if `pools` is empty or do not share the same Engine.
+   * Throws if `parts` is not a positive integer.
+   * Throws if a part of `amountIn` cannot be swapped in any pool.
+   *
+   * @beta
+   */
+  public static splitTradeExactIn(pools: Pool[], tokenIn: Token, amountIn: Wei, parts = 10): Trade[] {
+    Router.validatePools(pools, tokenIn)
+    invariant(Number.isInteger(parts) && parts > 0, `Parts must be a positive integer: ${parts}`)
+    invariant(amountIn.gt(0), `Amount in must be greater than zero: ${amountIn.toString()}`)
+
+    const part = amountIn.div(parts)
+    const amounts: Wei[] = pools.map(() => parseWei(0, tokenIn.decimals))
+    const outputs: Wei[] = pools.map(pool =>
+      parseWei(0, pool.risky.equals(tokenIn) ? pool.stable.decimals : pool.risky.decimals)
+    )
+
+    for (let i = 0; i < parts; i++) {
+      // remainder of the division is added to the last part
+      const amount = i === parts - 1 ? amountIn.sub(part.mul(parts - 1)) : part
+      if (amount.raw.isZero()) continue
+
+      let bestIndex = -1
+      let bestIncrease: Wei | undefined = undefined
+      for (let index = 0; index < pools.length; index++) {
+        const output = Router.tryOutput(pools[index], tokenIn, amounts[index].add(amount))
+        if (!output) continue
+        const increase = output.sub(outputs[index])
+        if (!bestIncrease || increase.gt(bestIncrease)) {
+          bestIndex = index
+          bestIncrease = increase
+        }
+      }
+
+      invariant(bestIncrease, `No route for amount in: ${amount.toString()}`)
+      amounts[bestIndex] = amounts[bestIndex].add(amount)
+      outputs[bestIndex] = outputs[bestIndex].add(bestIncrease)
+    }
+
+    return pools
+      .map((pool, index) => (amounts[index].gt(0) ? Trade.exactIn(pool, tokenIn, amounts[index]) : undefined))
+      .filter((trade): trade is Trade => typeof trade !== 'undefined')
+  }
+
+  /** Throws if `pools` is empty, do not share the same Engine, or `token` is not in the pair. */
+  private static validatePools(pools: Pool[], token: Token): void {
+    invariant(pools.length > 0, 'No pools')
+    const engine = pools[0].address
+    pools.forEach(pool => invariant(pool.address === engine, `Pool engine mismatch: ${pool.address} != ${engine}`))
+    invariant(pools[0].involvesToken(token), `Token is not in pair: ${token.address}`)
+  }
+
+  /** Gets a trade, or undefined if it would be reverted by the Engine. */
+  private static tryTrade(getTrade: () => Trade): Trade | undefined {
+    try {
+      return getTrade()
+    } catch (e) {
+      return undefined
+    }
+  }
+
+  /** Gets the output of a swap, or undefined if it is zero or would be reverted by the Engine. */
+  private static tryOutput(pool: Pool, tokenIn: Token, amountIn: Wei): Wei | undefined {
+    try {
+      const { output } = pool.amountOutX64(tokenIn, amountIn)
+      return output.gt(0) ? output : undefined
+    } catch (e) {
+      return undefined
+    }
+  }
+}
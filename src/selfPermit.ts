@@ -1,5 +1,6 @@
 import { BigNumber } from 'ethers'
 import { Interface } from '@ethersproject/abi'
+import invariant from 'tiny-invariant'
 import { Token } from '@uniswap/sdk-core'
 import ManagerArtifact from '@primitivefi/rmm-manager/artifacts/contracts/PrimitiveManager.sol/PrimitiveManager.json'
 
@@ -10,8 +11,19 @@ export interface RSV {
   s: string
 }
 
+/** Kind of permit, which discriminates {@link PermitOptions}. */
+export enum PermitType {
+  /** {@link https://eips.ethereum.org/EIPS/eip-2612} `permit` with an amount, encoded as `selfPermit`. */
+  STANDARD = 'STANDARD',
+  /** DAI-style `permit` of the maximum amount, encoded as `selfPermitAllowed`. */
+  ALLOWED = 'ALLOWED'
+}
+
 /** {@link https://eips.ethereum.org/EIPS/eip-2612} */
 export interface StandardPermitArguments extends RSV {
+  /** Kind of permit. */
+  type: PermitType.STANDARD
+
   /** Value of approval to make in permit call. */
   amount: BigNumber
 
@@ -21,6 +33,9 @@ export interface StandardPermitArguments extends RSV {
 
 /** {@link https://eips.ethereum.org/EIPS/eip-2612} */
 export interface AllowedPermitArguments extends RSV {
+  /** Kind of permit. */
+  type: PermitType.ALLOWED
+
   /** Nonce of this permit. */
   nonce: BigNumber
 
@@ -28,16 +43,15 @@ export interface AllowedPermitArguments extends RSV {
   expiry: BigNumber
 }
 
-/** Either {@link AllowedPermitArguments} or {@link StandardPermitArguments} */
+/** Either {@link AllowedPermitArguments} or {@link StandardPermitArguments}, discriminated by their `type`. */
 export type PermitOptions = StandardPermitArguments | AllowedPermitArguments
 
-/** True if `permitOptions` has a `nonce` attribute. */
-function isAllowedPermit(permitOptions: PermitOptions): permitOptions is AllowedPermitArguments {
-  return 'nonce' in permitOptions
-}
-
 /**
  * Abstract class with static methods to encode permit related function calldata.
+ *
+ * @remarks
+ * The Manager pulls tokens with `transferFrom` of the token and only implements the `SelfPermit` functions,
+ * so Permit2 signatures cannot be used in its calls.
  */
 export abstract class SelfPermit {
   public static INTERFACE: Interface = new Interface(ManagerArtifact.abi)
@@ -53,7 +67,9 @@ export abstract class SelfPermit {
    * @public
    */
   protected static encodePermit(token: Token, options: PermitOptions) {
-    return isAllowedPermit(options)
+    const type: string = options.type
+    invariant(type === PermitType.STANDARD || type === PermitType.ALLOWED, `Unknown permit type: ${type}`)
+    return options.type === PermitType.ALLOWED
       ? SelfPermit.INTERFACE.encodeFunctionData('selfPermitAllowed', [
           token.address,
           options.nonce.toHexString(),
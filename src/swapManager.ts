@@ -2,14 +2,20 @@ import { BigNumber } from 'ethers'
 import invariant from 'tiny-invariant'
 import { Interface } from '@ethersproject/abi'
 import { Signer } from '@ethersproject/abstract-signer'
+import { NativeCurrency, TradeType } from '@uniswap/sdk-core'
 import { AddressZero } from '@ethersproject/constants'
 import { ContractFactory } from '@ethersproject/contracts'
 import { parseWei, Percentage, toBN, Wei } from 'web3-units'
 import ManagerArtifact from '@primitivefi/rmm-manager/artifacts/contracts/PrimitiveManager.sol/PrimitiveManager.json'
 
 import { Pool } from './entities/pool'
+import { Trade } from './entities/trade'
+import { PathTrade } from './entities/pathTrade'
+import { Zap } from './entities/zap'
+import { Exit } from './entities/exit'
+import { Rollover } from './entities/rollover'
 import { MethodParameters, validateAndParseAddress, validateDecimals } from './utils'
-import { PeripheryManager, NativeOptions } from './peripheryManager'
+import { PeripheryManager, NativeOptions, RecipientOptions } from './peripheryManager'
 import { PermitOptions, SelfPermit } from './selfPermit'
 
 /** Default arguments in swaps. */
@@ -48,6 +54,66 @@ export interface SwapOptions extends DefaultOptions, NativeOptions {
   toRecipient?: boolean
 }
 
+/** Swap arguments of a {@link Trade}, which has the amounts and direction of the swap. */
+export interface TradeOptions extends DefaultOptions, NativeOptions {
+  /** True if input token amount is debited from `msg.sender` margin account. */
+  fromMargin?: boolean
+
+  /** True if output token amount is kept within the contract. The {@link DefaultOptions.recipient} margin account is credited. */
+  toMargin?: boolean
+
+  /** True if output token amount is sent to {@link DefaultOptions.recipient}. */
+  toRecipient?: boolean
+}
+
+/** Swap arguments of a {@link PathTrade}, which swaps through multiple Engines. */
+export interface PathTradeOptions extends DefaultOptions {
+  /** Address sending the transaction, which receives and pays the output of each intermediate hop. */
+  sender: string
+
+  /** True if input token amount of the first hop is debited from `msg.sender` margin account. */
+  fromMargin?: boolean
+
+  /** True if output token amount of the last hop is kept within the contract. The {@link DefaultOptions.recipient} margin account is credited. */
+  toMargin?: boolean
+}
+
+/** Swap arguments of an exact output {@link Trade}, which is paid from the margin account of the sender. */
+export interface ExactOutputOptions extends TradeOptions {
+  /** Address sending the transaction, which deposits the maximum amount in to its margin account. */
+  sender: string
+}
+
+/** Swap and allocate arguments of a {@link Zap}, with {@link DefaultOptions.recipient} receiving the liquidity. */
+export interface ZapOptions extends DefaultOptions {
+  /** Address sending the transaction, which pays the input and whose margin account is used between the swap and allocate. */
+  sender: string
+}
+
+/** Remove and swap arguments of an {@link Exit}, with {@link RecipientOptions.recipient} receiving the output token. */
+export interface ExitOptions extends RecipientOptions, NativeOptions {
+  /** Address sending the transaction, whose margin account is used between the remove, swap and withdraw. */
+  sender: string
+
+  /** Timestamp which will revert the swap if tx has not been mined by then. */
+  deadline: BigNumber
+
+  /** Maximum slippage of the amounts removed and of the swap output, as a Percentage class {@link web3-units#Percentage}. */
+  slippageTolerance: Percentage
+}
+
+/** Remove, swap and allocate arguments of a {@link Rollover}, with {@link RecipientOptions.recipient} receiving the liquidity. */
+export interface RolloverOptions extends RecipientOptions {
+  /** Address sending the transaction, whose margin account is used between the remove, swap and allocate. */
+  sender: string
+
+  /** Timestamp which will revert the swap if tx has not been mined by then. */
+  deadline: BigNumber
+
+  /** Maximum slippage of the swap output and of the liquidity minted, as a Percentage class {@link web3-units#Percentage}. */
+  slippageTolerance: Percentage
+}
+
 /**
  * Abstract class which implements static methods to encode calldata for swaps.
  *
@@ -69,6 +135,7 @@ export abstract class SwapManager extends SelfPermit {
    *
    * @remarks
    * If desired output is Ether, swap call is stacked with an unwrapAndWithdraw call, encoded in a multicall.
+   * If {@link NativeOptions.useNative} wraps the input token, the input amount is sent as value and wrapped by the Manager.
    *
    * @param pool Pool entity class being swapped within.
    * @param options Swap argument details.
@@ -76,11 +143,556 @@ export abstract class SwapManager extends SelfPermit {
    * @throws
    * Throws if {@link DefaultOptions.recipient} is an invalid address or the zero address.
    * Throws if {@link DefaultOptions.inputTokenPermit} is defined and input token is not a token (e.g. Ether).
+   * Throws if {@link NativeOptions.useNative} is defined and its `wrapped` token is not a token of the pool.
+   * Throws if the input is native and paid from margin.
+   * Throws if decimals on input or output swap amounts is not the same as the pool's respective token decimals.
+   *
+   * @beta
+   */
+  public static swapCallParameters(pool: Pool, options: SwapOptions): MethodParameters
+
+  /**
+   * Gets calldata and value to send for this trade.
+   *
+   * @remarks
+   * If the trade is exact input, the output amount requested is the minimum amount out given the slippage tolerance.
+   *
+   * @param trade Trade entity with the pool, direction and amounts of the swap.
+   * @param options Swap argument details.
+   *
+   * @beta
+   */
+  public static swapCallParameters(trade: Trade, options: TradeOptions): MethodParameters
+
+  /**
+   * Gets calldata and value to send for multiple trades, encoded in a single multicall.
+   *
+   * @remarks
+   * Used to execute an order split across pools of the same pair, e.g. from {@link Router.splitTradeExactIn}.
+   * If {@link DefaultOptions.inputTokenPermit} is defined, it is encoded once and must cover the sum of the inputs.
+   *
+   * @param trades Trade entities which all pay the same input token.
+   * @param options Swap argument details, applied to each trade.
+   *
+   * @throws
+   * Throws if `trades` is empty.
+   * Throws if the trades do not all swap the same input token for the same output token.
+   *
+   * @beta
+   */
+  public static swapCallParameters(trades: Trade[], options: TradeOptions): MethodParameters
+
+  public static swapCallParameters(
+    poolOrTrades: Pool | Trade | Trade[],
+    swapOrTradeOptions: SwapOptions | TradeOptions
+  ): MethodParameters {
+    if (poolOrTrades instanceof Trade) return SwapManager.swapCallParameters([poolOrTrades], swapOrTradeOptions)
+
+    let calldatas: string[] = []
+    let value: BigNumber = toBN(0)
+
+    if (Array.isArray(poolOrTrades)) {
+      const trades = poolOrTrades
+      const options = swapOrTradeOptions as TradeOptions
+      invariant(trades.length > 0, 'No trades')
+
+      const { inputToken, outputToken } = trades[0]
+      trades.forEach(trade => {
+        invariant(
+          trade.inputToken.equals(inputToken) && trade.outputToken.equals(outputToken),
+          `Trade tokens mismatch: ${trade.inputToken.address} != ${inputToken.address}`
+        )
+      })
+
+      // trades swap the same pair, so the input is native in all or none of them
+      const isEthInput = SwapManager.isNativeInput(trades[0].pool, trades[0].riskyForStable, options.useNative)
+      invariant(!(isEthInput && options.fromMargin), 'Cannot pay native input from margin')
+
+      if (options.inputTokenPermit) {
+        invariant(inputToken.isToken && !isEthInput, 'Not token')
+        calldatas.push(SwapManager.encodePermit(inputToken, options.inputTokenPermit))
+      }
+
+      trades.forEach(trade => {
+        const swapOptions = SwapManager.getTradeSwapOptions(trade, options)
+        calldatas.push(...SwapManager.encodeSwap(trade.pool, swapOptions))
+        if (isEthInput) value = value.add(swapOptions.deltaIn.raw)
+      })
+    } else {
+      const pool = poolOrTrades
+      const options = swapOrTradeOptions as SwapOptions
+      const isEthInput = SwapManager.isNativeInput(pool, options.riskyForStable, options.useNative)
+      if (isEthInput) {
+        invariant(!options.fromMargin, 'Cannot pay native input from margin')
+        value = options.deltaIn.raw
+      }
+
+      // if input token is permit-able
+      if (options.inputTokenPermit) {
+        const token = options.riskyForStable ? pool.risky : pool.stable
+        invariant(token.isToken && !isEthInput, 'Not token')
+        calldatas.push(SwapManager.encodePermit(token, options.inputTokenPermit))
+      }
+
+      calldatas.push(...SwapManager.encodeSwap(pool, options))
+    }
+
+    return {
+      calldata:
+        calldatas.length === 1 ? calldatas[0] : SwapManager.INTERFACE.encodeFunctionData('multicall', [calldatas]),
+      value: value.toHexString()
+    }
+  }
+
+  /**
+   * Gets calldata and value to send for the swap which moves the reported price of `pool` to `targetPrice`.
+   *
+   * @remarks
+   * If paying risky tokens, the swap is exact input and the output requested is the minimum amount out
+   * given the slippage tolerance. If paying stable tokens, the swap is exact output.
+   *
+   * @param pool Pool entity class being swapped within.
+   * @param targetPrice Price of the risky token denominated in the stable token, with the stable token's decimals.
+   * @param options Swap argument details.
+   *
+   * @throws
+   * Throws if the swap to `targetPrice` cannot be computed, see {@link Pool.swapToPrice}.
+   *
+   * @beta
+   */
+  public static swapToPriceCallParameters(pool: Pool, targetPrice: Wei, options: TradeOptions): MethodParameters {
+    const { riskyForStable, input, output } = pool.swapToPrice(targetPrice)
+    const tradeType = riskyForStable ? TradeType.EXACT_INPUT : TradeType.EXACT_OUTPUT
+    return SwapManager.swapCallParameters(new Trade(pool, tradeType, riskyForStable, input, output), options)
+  }
+
+  /**
+   * Gets calldata and value to send for a trade through a path of pools, encoded in a single multicall.
+   *
+   * @remarks
+   * Margin accounts are per Engine, so the output of an intermediate hop cannot be paid from margin in the next Engine.
+   * Instead, each intermediate hop credits the output to the {@link PathTradeOptions.sender} margin account,
+   * which is withdrawn to the sender in the same multicall and paid to the next hop.
+   * The sender must be `msg.sender` and have approved the Manager to spend each intermediate token.
+   *
+   * The slippage tolerance is applied to the output of each hop, and each hop pays the minimum output of the previous hop,
+   * so the tolerance compounds along the path. The output of the last hop is the minimum amount received by
+   * {@link DefaultOptions.recipient}. If any hop cannot pay its minimum output, the Engine reverts the multicall.
+   *
+   * @param trade Path trade entity with the hops of the swap, e.g. from {@link PathTrade.exactIn}.
+   * @param options Swap argument details.
+   *
+   * @throws
+   * Throws if {@link DefaultOptions.recipient} or {@link PathTradeOptions.sender} is an invalid address or the zero address.
+   * Throws if {@link DefaultOptions.inputTokenPermit} is defined and input token is not a token (e.g. Ether).
+   * Throws if the minimum amount out of a hop is zero.
+   *
+   * @beta
+   */
+  public static pathSwapCallParameters(trade: PathTrade, options: PathTradeOptions): MethodParameters {
+    const sender: string = validateAndParseAddress(options.sender)
+    invariant(sender !== AddressZero, 'Zero Address Sender')
+
+    let calldatas: string[] = []
+
+    if (options.inputTokenPermit) {
+      invariant(trade.inputToken.isToken, 'Not token')
+      calldatas.push(SwapManager.encodePermit(trade.inputToken, options.inputTokenPermit))
+    }
+
+    const last = trade.hops.length - 1
+    let deltaIn = trade.inputAmount
+    trade.hops.forEach((hop, i) => {
+      // each hop pays the minimum output of the previous hop, which is quoted again in the pool of this hop
+      const quote = i === 0 ? hop.outputAmount : hop.pool.amountOutX64(hop.inputToken, deltaIn).output
+      const deltaOut = SwapManager.minimumAmountOut(options.slippageTolerance, quote)
+      invariant(deltaOut.gt(0), `Minimum amount out is zero: ${quote.toString()}`)
+
+      if (i < last) {
+        calldatas.push(
+          ...SwapManager.encodeSwap(hop.pool, {
+            ...options,
+            inputTokenPermit: undefined,
+            recipient: sender,
+            riskyForStable: hop.riskyForStable,
+            deltaIn,
+            deltaOut,
+            fromMargin: i === 0 ? options.fromMargin ?? false : false,
+            toMargin: true
+          })
+        )
+        calldatas.push(
+          ...PeripheryManager.encodeWithdraw(hop.pool, {
+            recipient: sender,
+            amountRisky: hop.riskyForStable ? parseWei(0, hop.pool.risky.decimals) : deltaOut,
+            amountStable: hop.riskyForStable ? deltaOut : parseWei(0, hop.pool.stable.decimals)
+          })
+        )
+      } else {
+        calldatas.push(
+          ...SwapManager.encodeSwap(hop.pool, {
+            ...options,
+            inputTokenPermit: undefined,
+            riskyForStable: hop.riskyForStable,
+            deltaIn,
+            deltaOut,
+            fromMargin: last === 0 ? options.fromMargin ?? false : false,
+            toMargin: options.toMargin ?? false
+          })
+        )
+      }
+      deltaIn = deltaOut
+    })
+
+    return {
+      calldata:
+        calldatas.length === 1 ? calldatas[0] : SwapManager.INTERFACE.encodeFunctionData('multicall', [calldatas]),
+      value: toBN(0).toHexString()
+    }
+  }
+
+  /**
+   * Gets calldata and value to send for an exact output trade, which bounds the input paid by the slippage tolerance.
+   *
+   * @remarks
+   * The Engine swaps exact input and output amounts, so the maximum amount in is deposited to the
+   * {@link ExactOutputOptions.sender} margin account, the swap pays the quoted input from margin,
+   * and the unused input is withdrawn to {@link DefaultOptions.recipient} in the same multicall.
+   * If {@link NativeOptions.useNative} wraps the input token, the maximum amount in is sent as value instead,
+   * which the Manager wraps to pay the quoted input, and the unused value is refunded to the sender with `refundETH`.
+   * The swap reverts if the quoted input no longer pays for the exact output.
+   *
+   * @param trade Exact output trade, e.g. from {@link Trade.exactOut}.
+   * @param options Swap argument details.
+   *
+   * @throws
+   * Throws if `trade` is not an exact output trade.
+   * Throws if {@link DefaultOptions.recipient} or {@link ExactOutputOptions.sender} is an invalid address or the zero address.
+   * Throws if {@link DefaultOptions.inputTokenPermit} is defined and input token is not a token (e.g. Ether).
+   * Throws if {@link NativeOptions.useNative} is defined and its `wrapped` token is not a token of the pool.
+   *
+   * @beta
+   */
+  public static exactOutputCallParameters(trade: Trade, options: ExactOutputOptions): MethodParameters {
+    invariant(trade.tradeType === TradeType.EXACT_OUTPUT, 'Not an exact output trade')
+    const sender: string = validateAndParseAddress(options.sender)
+    invariant(sender !== AddressZero, 'Zero Address Sender')
+
+    const { pool, riskyForStable, inputToken, inputAmount } = trade
+    const amountInMaximum = SwapManager.maximumAmountIn(options.slippageTolerance, inputAmount)
+    const slack = amountInMaximum.sub(inputAmount)
+
+    const isEthInput = SwapManager.isNativeInput(pool, riskyForStable, options.useNative)
+    let calldatas: string[] = []
+
+    if (options.inputTokenPermit) {
+      invariant(inputToken.isToken && !isEthInput, 'Not token')
+      calldatas.push(SwapManager.encodePermit(inputToken, options.inputTokenPermit))
+    }
+
+    // native input is wrapped by the Manager to pay the swap, and the unused value is refunded
+    if (isEthInput) {
+      calldatas.push(
+        ...SwapManager.encodeSwap(pool, { ...SwapManager.getTradeSwapOptions(trade, options), fromMargin: false })
+      )
+      calldatas.push(SwapManager.INTERFACE.encodeFunctionData('refundETH'))
+      return {
+        calldata: SwapManager.INTERFACE.encodeFunctionData('multicall', [calldatas]),
+        value: amountInMaximum.raw.toHexString()
+      }
+    }
+
+    calldatas.push(
+      PeripheryManager.depositCallParameters(pool, {
+        recipient: sender,
+        amountRisky: riskyForStable ? amountInMaximum : parseWei(0, pool.risky.decimals),
+        amountStable: riskyForStable ? parseWei(0, pool.stable.decimals) : amountInMaximum
+      }).calldata
+    )
+    calldatas.push(
+      ...SwapManager.encodeSwap(pool, {
+        ...SwapManager.getTradeSwapOptions(trade, options),
+        fromMargin: true
+      })
+    )
+
+    if (slack.gt(0)) {
+      calldatas.push(
+        ...PeripheryManager.encodeWithdraw(pool, {
+          recipient: options.recipient,
+          amountRisky: riskyForStable ? slack : parseWei(0, pool.risky.decimals),
+          amountStable: riskyForStable ? parseWei(0, pool.stable.decimals) : slack
+        })
+      )
+    }
+
+    return {
+      calldata:
+        calldatas.length === 1 ? calldatas[0] : SwapManager.INTERFACE.encodeFunctionData('multicall', [calldatas]),
+      value: toBN(0).toHexString()
+    }
+  }
+
+  /**
+   * Gets calldata and value to send for a zap, which swaps part of a single token and allocates the rest with the output.
+   *
+   * @remarks
+   * The swap requests the minimum amount out given the slippage tolerance, which is credited to the
+   * {@link ZapOptions.sender} margin account. The input token to allocate is deposited to the same margin account,
+   * then both tokens are allocated from margin with the amounts of {@link Zap.getAllocation} for the minimum amount out.
+   * The slippage tolerance is also applied to the liquidity minted. Any output not allocated stays in the sender's margin.
+   *
+   * @param zap Zap entity with the swap and allocate amounts, e.g. from {@link Zap.exactIn}.
+   * @param options Zap argument details.
+   *
+   * @throws
+   * Throws if {@link DefaultOptions.recipient} or {@link ZapOptions.sender} is an invalid address or the zero address.
+   * Throws if {@link DefaultOptions.inputTokenPermit} is defined and input token is not a token (e.g. Ether).
+   * Throws if the minimum amount out of the swap or the minimum liquidity is zero.
+   *
+   * @beta
+   */
+  public static zapCallParameters(zap: Zap, options: ZapOptions): MethodParameters {
+    const sender: string = validateAndParseAddress(options.sender)
+    invariant(sender !== AddressZero, 'Zero Address Sender')
+
+    const { pool, riskyForStable, inputToken, trade } = zap
+    const deltaOut = SwapManager.minimumAmountOut(options.slippageTolerance, trade.outputAmount)
+    invariant(deltaOut.gt(0), `Minimum amount out is zero: ${trade.outputAmount.toString()}`)
+    const { delRisky, delStable, delLiquidity } = zap.getAllocation(deltaOut)
+
+    let calldatas: string[] = []
+
+    if (options.inputTokenPermit) {
+      invariant(inputToken.isToken, 'Not token')
+      calldatas.push(SwapManager.encodePermit(inputToken, options.inputTokenPermit))
+    }
+
+    calldatas.push(
+      ...SwapManager.encodeSwap(pool, {
+        ...options,
+        inputTokenPermit: undefined,
+        recipient: sender,
+        riskyForStable,
+        deltaIn: trade.inputAmount,
+        deltaOut,
+        fromMargin: false,
+        toMargin: true
+      })
+    )
+    calldatas.push(
+      PeripheryManager.depositCallParameters(pool, {
+        recipient: sender,
+        amountRisky: riskyForStable ? delRisky : parseWei(0, pool.risky.decimals),
+        amountStable: riskyForStable ? parseWei(0, pool.stable.decimals) : delStable
+      }).calldata
+    )
+    calldatas.push(
+      PeripheryManager.allocateCallParameters(pool, {
+        recipient: options.recipient,
+        delRisky,
+        delStable,
+        delLiquidity,
+        fromMargin: true,
+        slippageTolerance: options.slippageTolerance
+      }).calldata
+    )
+
+    return {
+      calldata: SwapManager.INTERFACE.encodeFunctionData('multicall', [calldatas]),
+      value: toBN(0).toHexString()
+    }
+  }
+
+  /**
+   * Gets calldata and value to send for an exit, which removes liquidity and swaps the unwanted token into the output token.
+   *
+   * @remarks
+   * The removed tokens are deposited to the {@link ExitOptions.sender} margin account, with minimum amounts given the
+   * slippage tolerance. The minimum removed amount of the unwanted token is swapped from margin, requesting the minimum
+   * amount out of that swap, which is credited to the same margin account. The combined minimum output is withdrawn to
+   * {@link RecipientOptions.recipient}, and unwrapped if {@link NativeOptions.useNative} is defined.
+   * Any removed amount above the minimums stays in the sender's margin.
+   *
+   * @param exit Exit entity with the remove and swap amounts, e.g. from {@link Exit.exactIn}.
+   * @param options Exit argument details.
+   *
+   * @throws
+   * Throws if {@link RecipientOptions.recipient} or {@link ExitOptions.sender} is an invalid address or the zero address.
+   * Throws if the minimum amount out of the swap is zero.
+   * Throws if {@link NativeOptions.useNative} is defined and its `wrapped` token is not the output token.
+   *
+   * @beta
+   */
+  public static exitCallParameters(exit: Exit, options: ExitOptions): MethodParameters {
+    const sender: string = validateAndParseAddress(options.sender)
+    invariant(sender !== AddressZero, 'Zero Address Sender')
+
+    const { pool, riskyForStable, outputToken, delLiquidity, delRisky, delStable, trade } = exit
+    if (options.useNative) invariant(outputToken.equals(options.useNative.wrapped), 'Output is not the wrapped native')
+
+    const slippageMultiplier = Percentage.BasisPoints - options.slippageTolerance.bps // 100% - slippage%
+    const minRisky = delRisky.mul(slippageMultiplier).div(Percentage.BasisPoints)
+    const minStable = delStable.mul(slippageMultiplier).div(Percentage.BasisPoints)
+
+    // swaps the minimum amount removed of the unwanted token, which is in margin if the remove succeeds
+    const deltaIn = riskyForStable ? minRisky : minStable
+    const { output } = trade.pool.amountOutX64(trade.inputToken, deltaIn)
+    const deltaOut = SwapManager.minimumAmountOut(options.slippageTolerance, output)
+    invariant(deltaOut.gt(0), `Minimum amount out is zero: ${output.toString()}`)
+    const amountOut = (riskyForStable ? minStable : minRisky).add(deltaOut)
+
+    let calldatas: string[] = []
+    calldatas.push(
+      PeripheryManager.removeCallParameters(pool, {
+        recipient: sender,
+        delLiquidity,
+        delRisky,
+        delStable,
+        expectedRisky: parseWei(0, pool.risky.decimals),
+        expectedStable: parseWei(0, pool.stable.decimals),
+        toMargin: true,
+        slippageTolerance: options.slippageTolerance
+      }).calldata
+    )
+    calldatas.push(
+      ...SwapManager.encodeSwap(pool, {
+        recipient: sender,
+        deadline: options.deadline,
+        slippageTolerance: options.slippageTolerance,
+        riskyForStable,
+        deltaIn,
+        deltaOut,
+        fromMargin: true,
+        toMargin: true
+      })
+    )
+    calldatas.push(
+      ...PeripheryManager.encodeWithdraw(pool, {
+        recipient: options.recipient,
+        amountRisky: riskyForStable ? parseWei(0, pool.risky.decimals) : amountOut,
+        amountStable: riskyForStable ? amountOut : parseWei(0, pool.stable.decimals),
+        useNative: options.useNative
+      })
+    )
+
+    return {
+      calldata: SwapManager.INTERFACE.encodeFunctionData('multicall', [calldatas]),
+      value: toBN(0).toHexString()
+    }
+  }
+
+  /**
+   * Gets calldata and value to send for a rollover, which moves liquidity from a pool into another pool of the same Engine.
+   *
+   * @remarks
+   * The removed tokens are deposited to the {@link RolloverOptions.sender} margin account, with minimum amounts given the
+   * slippage tolerance. The rebalancing swap input is scaled down by the same tolerance, so it is paid from the minimum
+   * removed amounts, and is credited to the same margin account, requesting the minimum amount out of that input.
+   * The amounts of {@link Rollover.getAllocation} for the minimum amounts are allocated from margin.
+   * If the target pool is created, the amounts are withdrawn to the sender, which pays them to `create` and receives
+   * the liquidity, so the Manager must be approved to spend both tokens. Tokens not allocated stay in the sender's margin.
+   *
+   * @param rollover Rollover entity, e.g. from {@link Rollover.toPool} or {@link Rollover.toCalibration}.
+   * @param options Rollover argument details.
+   *
+   * @throws
+   * Throws if {@link RecipientOptions.recipient} or {@link RolloverOptions.sender} is an invalid address or the zero address.
+   * Throws if the minimum amount out of the swap or the minimum liquidity is zero.
+   *
+   * @beta
+   */
+  public static rolloverCallParameters(rollover: Rollover, options: RolloverOptions): MethodParameters {
+    const sender: string = validateAndParseAddress(options.sender)
+    invariant(sender !== AddressZero, 'Zero Address Sender')
+
+    const { source, target, trade, delLiquidity, delRisky, delStable } = rollover
+
+    const slippageMultiplier = Percentage.BasisPoints - options.slippageTolerance.bps // 100% - slippage%
+    const removed = {
+      delRisky: delRisky.mul(slippageMultiplier).div(Percentage.BasisPoints),
+      delStable: delStable.mul(slippageMultiplier).div(Percentage.BasisPoints)
+    }
+
+    let calldatas: string[] = []
+    calldatas.push(
+      PeripheryManager.removeCallParameters(source, {
+        recipient: sender,
+        delLiquidity,
+        delRisky,
+        delStable,
+        expectedRisky: parseWei(0, source.risky.decimals),
+        expectedStable: parseWei(0, source.stable.decimals),
+        toMargin: true,
+        slippageTolerance: options.slippageTolerance
+      }).calldata
+    )
+
+    let deltaIn: Wei | undefined = undefined
+    let deltaOut: Wei | undefined = undefined
+    if (trade) {
+      // swaps the share of the minimum removed amounts, which is in margin if the remove succeeds
+      deltaIn = trade.inputAmount.mul(slippageMultiplier).div(Percentage.BasisPoints)
+      const { output } = trade.pool.amountOutX64(trade.inputToken, deltaIn)
+      deltaOut = SwapManager.minimumAmountOut(options.slippageTolerance, output)
+      invariant(deltaOut.gt(0), `Minimum amount out is zero: ${output.toString()}`)
+      calldatas.push(
+        ...SwapManager.encodeSwap(trade.pool, {
+          recipient: sender,
+          deadline: options.deadline,
+          slippageTolerance: options.slippageTolerance,
+          riskyForStable: trade.riskyForStable,
+          deltaIn,
+          deltaOut,
+          fromMargin: true,
+          toMargin: true
+        })
+      )
+    }
+
+    const allocation = rollover.getAllocation(deltaOut, deltaIn, removed)
+    if (rollover.createTarget) {
+      calldatas.push(
+        ...PeripheryManager.encodeWithdraw(source, {
+          recipient: sender,
+          amountRisky: allocation.delRisky,
+          amountStable: allocation.delStable
+        })
+      )
+      calldatas.push(PeripheryManager.encodeCreate(target, allocation.delLiquidity))
+    } else {
+      calldatas.push(
+        PeripheryManager.allocateCallParameters(target, {
+          ...allocation,
+          recipient: options.recipient,
+          fromMargin: true,
+          slippageTolerance: options.slippageTolerance
+        }).calldata
+      )
+    }
+
+    return {
+      calldata: SwapManager.INTERFACE.encodeFunctionData('multicall', [calldatas]),
+      value: toBN(0).toHexString()
+    }
+  }
+
+  /**
+   * Gets encoded function data with function selector 'swap' and swap arguments.
+   *
+   * @remarks
+   * If desired output is Ether, swap call is followed by the encoded calls to withdraw and unwrap it.
+   *
+   * @param pool Pool entity class being swapped within.
+   * @param options Swap argument details.
+   *
+   * @throws
+   * Throws if {@link DefaultOptions.recipient} is an invalid address or the zero address.
    * Throws if decimals on input or output swap amounts is not the same as the pool's respective token decimals.
    *
    * @beta
    */
-  public static swapCallParameters(pool: Pool, options: SwapOptions): MethodParameters {
+  public static encodeSwap(pool: Pool, options: SwapOptions): string[] {
     if (options.riskyForStable) {
       validateDecimals(options.deltaIn, pool.risky)
       validateDecimals(options.deltaOut, pool.stable)
@@ -92,20 +704,10 @@ export abstract class SwapManager extends SelfPermit {
     const recipient: string = validateAndParseAddress(options.recipient)
     invariant(recipient !== AddressZero, 'Zero Address Recipient')
 
-    const isEthInput = options.riskyForStable ? pool.risky.isNative : pool.stable.isNative
     const isEthOutput = options.riskyForStable ? pool.stable.isNative : pool.risky.isNative
 
-    const value: string = isEthInput ? options.deltaIn.raw.toHexString() : toBN(0).toHexString()
-
     let calldatas: string[] = []
 
-    // if input token is permit-able
-    if (options.inputTokenPermit) {
-      const token = options.riskyForStable ? pool.risky : pool.stable
-      invariant(token.isToken, 'Not token')
-      calldatas.push(SwapManager.encodePermit(token, options.inputTokenPermit))
-    }
-
     // swap data
     // By default, tokens are sent to recipient
     // If output token should be ether, and tokens should be sent to recipient, then they
@@ -140,13 +742,62 @@ export abstract class SwapManager extends SelfPermit {
       )
     }
 
+    return calldatas
+  }
+
+  /**
+   * Gets true if the input of a swap is paid with the native currency, which the Manager wraps.
+   *
+   * @throws
+   * Throws if `useNative` is defined and its `wrapped` token is not a token of `pool`.
+   */
+  private static isNativeInput(pool: Pool, riskyForStable: boolean, useNative?: NativeCurrency): boolean {
+    if (!useNative) return false
+    const wrapped = useNative.wrapped
+    invariant(pool.risky.equals(wrapped) || pool.stable.equals(wrapped), 'No Weth')
+    return (riskyForStable ? pool.risky : pool.stable).equals(wrapped)
+  }
+
+  /**
+   * Gets the swap arguments of a trade.
+   *
+   * @remarks
+   * If the trade is exact input, the output amount requested is the minimum amount out given the slippage tolerance.
+   */
+  private static getTradeSwapOptions(trade: Trade, options: TradeOptions): SwapOptions {
+    const deltaOut =
+      trade.tradeType === TradeType.EXACT_INPUT
+        ? SwapManager.minimumAmountOut(options.slippageTolerance, trade.outputAmount)
+        : trade.outputAmount
     return {
-      calldata:
-        calldatas.length === 1 ? calldatas[0] : SwapManager.INTERFACE.encodeFunctionData('multicall', [calldatas]),
-      value
+      ...options,
+      inputTokenPermit: undefined,
+      riskyForStable: trade.riskyForStable,
+      deltaIn: trade.inputAmount,
+      deltaOut,
+      fromMargin: options.fromMargin ?? false,
+      toMargin: options.toMargin ?? false
     }
   }
 
+  /**
+   * Get the maximum amount that should be paid for this trade for the given slippage tolerance.
+   *
+   * @param slippageTolerance The tolerance of unfavorable slippage from the execution price of this trade.
+   *
+   * @returns Amount in.
+   *
+   * @beta
+   */
+  public static maximumAmountIn(slippageTolerance: Percentage, amountIn: Wei): Wei {
+    invariant(!(slippageTolerance.float < 0), 'SLIPPAGE_TOLERANCE')
+    const scalar = Math.pow(10, Percentage.Mantissa)
+
+    // amount in * (100 + slippage tolerance) / 100 = maximum amount in
+    const slippageAdjustedAmountIn = amountIn.mul(slippageTolerance.raw.add(scalar)).div(scalar)
+    return slippageAdjustedAmountIn
+  }
+
   /**
    * Get the minimum amount that must be received from this trade for the given slippage tolerance.
    *
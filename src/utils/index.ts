@@ -4,6 +4,7 @@ export * from './computePoolId'
 export * from './getTokenPairSaltHash'
 export * from './normalize'
 export * from './parseCalibration'
+export * from './solveDecreasing'
 export * from './validateAndParseAddress'
 export * from './validateDecimals'
 export * from './weiToWei'
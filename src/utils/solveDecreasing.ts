@@ -0,0 +1,49 @@
+import { BigNumber } from '@ethersproject/bignumber'
+
+/**
+ * Gets the largest integer between `low` and `high` where the decreasing function `f` is not negative.
+ *
+ * @remarks
+ * Solved with regula falsi and the Illinois modification, which converges in a few evaluations of a smooth `f`.
+ * Returns `low` if `f(low)` is negative, and `high` if `f(high)` is not negative.
+ *
+ * @param f Function which decreases as its input increases.
+ * @param low Lower bound of the input.
+ * @param high Upper bound of the input, not less than `low`.
+ *
+ * @beta
+ */
+export function solveDecreasing(f: (x: BigNumber) => BigNumber, low: BigNumber, high: BigNumber): BigNumber {
+  let [valueLow, valueHigh] = [f(low), f(high)]
+  if (valueLow.lt(0)) return low
+  if (valueHigh.gte(0)) return high
+
+  let side = 0
+  while (high.sub(low).gt(1)) {
+    let mid = low.add(
+      high
+        .sub(low)
+        .mul(valueLow)
+        .div(valueLow.sub(valueHigh))
+    )
+    if (mid.lte(low)) mid = low.add(1)
+    if (mid.gte(high)) mid = high.sub(1)
+
+    const value = f(mid)
+    if (value.isZero()) {
+      return mid
+    } else if (value.gt(0)) {
+      low = mid
+      valueLow = value
+      if (side > 0) valueHigh = valueHigh.div(2)
+      side = 1
+    } else {
+      high = mid
+      valueHigh = value
+      if (side < 0) valueLow = valueLow.div(2)
+      side = -1
+    }
+  }
+
+  return low
+}
@@ -0,0 +1,143 @@
+import { BigNumber } from 'ethers'
+import { parsePercentage, parseWei, Time, toBN } from 'web3-units'
+import { Ether } from '@uniswap/sdk-core'
+
+import { Pool } from '../src/entities/pool'
+import { PeripheryManager } from '../src/peripheryManager'
+import { SwapManager } from '../src/swapManager'
+import { ActionType, CalldataDecoder } from '../src/calldataDecoder'
+import { PermitType, StandardPermitArguments } from '../src/selfPermit'
+
+import { AddressOne } from './shared/constants'
+import { usePool, usePoolWithDecimals, useWethPool } from './shared/fixture'
+
+describe('CalldataDecoder', function() {
+  let pool: Pool, lowDecimalPool: Pool, recipient: string
+
+  const permit: StandardPermitArguments = {
+    type: PermitType.STANDARD,
+    v: 27,
+    r: '0x' + '11'.repeat(32),
+    s: '0x' + '22'.repeat(32),
+    amount: BigNumber.from(100),
+    deadline: BigNumber.from(1000)
+  }
+
+  beforeEach(async function() {
+    pool = usePool()
+    lowDecimalPool = usePoolWithDecimals(6)
+    recipient = AddressOne
+  })
+
+  it('#decode a create with the pool decimals', async function() {
+    const liquidity = parseWei(1, 18)
+    const { calldata } = PeripheryManager.createCallParameters(lowDecimalPool, liquidity)
+    const [action] = CalldataDecoder.decode(calldata, [lowDecimalPool])
+    if (action.type !== ActionType.Create) throw new Error('Not a create')
+    expect(action.strike.decimals).toBe(6)
+    expect(action.strike.raw.toString()).toBe(lowDecimalPool.strike.raw.toString())
+    expect(action.sigma.raw.toString()).toBe(lowDecimalPool.sigma.raw.toString())
+    expect(action.maturity.raw).toBe(lowDecimalPool.maturity.raw)
+    expect(action.gamma.raw.toString()).toBe(lowDecimalPool.gamma.raw.toString())
+    expect(action.riskyPerLp.decimals).toBe(6)
+    expect(action.delLiquidity.raw.toString()).toBe(liquidity.raw.toString())
+  })
+
+  it('#decode amounts default to 18 decimals without engines', async function() {
+    const amountRisky = parseWei(1, 6)
+    const amountStable = parseWei(2, 6)
+    const { calldata } = PeripheryManager.withdrawCallParameters(lowDecimalPool, {
+      recipient,
+      amountRisky,
+      amountStable
+    })
+    const [withDecimals] = CalldataDecoder.decode(calldata, [lowDecimalPool])
+    const [withDefault] = CalldataDecoder.decode(calldata)
+    if (withDecimals.type !== ActionType.Withdraw || withDefault.type !== ActionType.Withdraw)
+      throw new Error('Not a withdraw')
+    expect(withDecimals.recipient).toBe(recipient)
+    expect(withDecimals.engine).toBe(lowDecimalPool.address)
+    expect(withDecimals.delRisky.float).toBe(1)
+    expect(withDecimals.delStable.float).toBe(2)
+    expect(withDefault.delRisky.decimals).toBe(CalldataDecoder.DEFAULT_DECIMALS)
+  })
+
+  it('#decode flattens a multicall in order', async function() {
+    const pool = useWethPool()
+    const { calldata } = PeripheryManager.withdrawCallParameters(pool, {
+      recipient,
+      amountRisky: parseWei(1),
+      amountStable: parseWei(1),
+      useNative: Ether.onChain(1)
+    })
+    const actions = CalldataDecoder.decode(calldata, [pool])
+    expect(actions.map(action => action.type)).toStrictEqual([
+      ActionType.Withdraw,
+      ActionType.Unwrap,
+      ActionType.SweepToken
+    ])
+  })
+
+  it('#decode a nested multicall', async function() {
+    const inner = PeripheryManager.INTERFACE.encodeFunctionData('multicall', [
+      [
+        PeripheryManager.INTERFACE.encodeFunctionData('refundETH'),
+        PeripheryManager.INTERFACE.encodeFunctionData('unwrap', [1, recipient])
+      ]
+    ])
+    const outer = PeripheryManager.INTERFACE.encodeFunctionData('multicall', [
+      [PeripheryManager.INTERFACE.encodeFunctionData('refundETH'), inner]
+    ])
+    const actions = CalldataDecoder.decode(outer)
+    expect(actions.map(action => action.type)).toStrictEqual([
+      ActionType.RefundETH,
+      ActionType.RefundETH,
+      ActionType.Unwrap
+    ])
+  })
+
+  it('#decode a swap with a permit', async function() {
+    const deltaIn = parseWei(0.1, pool.risky.decimals)
+    const deltaOut = parseWei(0.5, pool.stable.decimals)
+    const { calldata } = SwapManager.swapCallParameters(pool, {
+      recipient,
+      riskyForStable: true,
+      deltaIn,
+      deltaOut,
+      fromMargin: false,
+      toMargin: false,
+      deadline: toBN(Time.YearInSeconds),
+      slippageTolerance: parsePercentage(0.01),
+      inputTokenPermit: permit
+    })
+    const [selfPermit, swap] = CalldataDecoder.decode(calldata, [pool])
+    if (selfPermit.type !== ActionType.SelfPermit || swap.type !== ActionType.Swap) throw new Error('Wrong actions')
+    expect(selfPermit.method).toBe('selfPermit')
+    expect(selfPermit.allowed).toBe(false)
+    expect(selfPermit.value?.raw.toString()).toBe('100')
+    expect(selfPermit.deadline.toString()).toBe('1000')
+    expect(selfPermit.r).toBe(permit.r)
+    expect(swap.poolId).toBe(pool.poolId)
+    expect(swap.riskyForStable).toBe(true)
+    expect(swap.deltaIn.raw.toString()).toBe(deltaIn.raw.toString())
+    expect(swap.deltaOut.raw.toString()).toBe(deltaOut.raw.toString())
+  })
+
+  it('#decode a liquidity transfer', async function() {
+    const amount = parseWei(0.5, 18)
+    const { calldata } = PeripheryManager.safeTransferFromParameters({
+      sender: recipient,
+      recipient,
+      amount,
+      id: pool.poolId
+    })
+    const [action] = CalldataDecoder.decode(calldata)
+    if (action.type !== ActionType.SafeTransferFrom) throw new Error('Not a transfer')
+    expect(BigNumber.from(action.id).toHexString()).toBe(pool.poolId)
+    expect(action.amount.raw.toString()).toBe(amount.raw.toString())
+  })
+
+  it('#decode fails with an unknown selector', async function() {
+    expect(() => CalldataDecoder.decode('0xdeadbeef')).toThrow('Unknown function selector')
+  })
+})
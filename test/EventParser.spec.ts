@@ -0,0 +1,109 @@
+import { AddressZero } from '@ethersproject/constants'
+import { parseWei } from 'web3-units'
+
+import { Engine } from '../src/entities/engine'
+import { Pool } from '../src/entities/pool'
+import { EventParser, EventType } from '../src/eventParser'
+
+import { AddressOne } from './shared/constants'
+import { useLog, usePool, usePoolWithDecimals } from './shared/fixture'
+
+const MANAGER = '0x0000000000000000000000000000000000000002'
+
+describe('EventParser', function() {
+  let pool: Pool, lowDecimalPool: Pool
+
+  beforeEach(async function() {
+    pool = usePool()
+    lowDecimalPool = usePoolWithDecimals(6)
+  })
+
+  it('#parseLog a create with the poolId', async function() {
+    const log = useLog(pool.address, Engine.INTERFACE, 'Create', [
+      AddressOne,
+      pool.strike.raw,
+      pool.sigma.raw,
+      pool.maturity.raw,
+      pool.gamma.raw
+    ])
+    const event = EventParser.parseLog(log, [pool])
+    if (event?.type !== EventType.Create) throw new Error('Not a create')
+    expect(event.poolId).toBe(pool.poolId)
+    expect(event.strike.raw.toString()).toBe(pool.strike.raw.toString())
+    expect(event.sigma.raw.toString()).toBe(pool.sigma.raw.toString())
+    expect(event.maturity.raw).toBe(pool.maturity.raw)
+    expect(event.transactionHash).toBe(log.transactionHash)
+    expect(event.logIndex).toBe(3)
+  })
+
+  it('#parseLog scales amounts by the engine decimals', async function() {
+    const delRisky = parseWei(1, 6)
+    const delStable = parseWei(2, 6)
+    const log = useLog(lowDecimalPool.address, Engine.INTERFACE, 'Allocate', [
+      AddressOne,
+      AddressOne,
+      lowDecimalPool.poolId,
+      delRisky.raw,
+      delStable.raw
+    ])
+    const event = EventParser.parseLog(log, [lowDecimalPool])
+    if (event?.type !== EventType.Allocate) throw new Error('Not an allocate')
+    expect(event.poolId).toBe(lowDecimalPool.poolId)
+    expect(event.delRisky.float).toBe(1)
+    expect(event.delStable.float).toBe(2)
+
+    const unknown = EventParser.parseLog(log)
+    if (unknown?.type !== EventType.Allocate) throw new Error('Not an allocate')
+    expect(unknown.delRisky.decimals).toBe(EventParser.DEFAULT_DECIMALS)
+  })
+
+  it('#parseLog a swap in the direction decimals', async function() {
+    const log = useLog(lowDecimalPool.address, Engine.INTERFACE, 'Swap', [
+      AddressOne,
+      AddressOne,
+      lowDecimalPool.poolId,
+      false,
+      parseWei(5, 6).raw,
+      parseWei(0.5, 6).raw
+    ])
+    const event = EventParser.parseLog(log, [lowDecimalPool])
+    if (event?.type !== EventType.Swap) throw new Error('Not a swap')
+    expect(event.riskyForStable).toBe(false)
+    expect(event.deltaIn.float).toBe(5)
+    expect(event.deltaOut.float).toBe(0.5)
+  })
+
+  it('#parseLog manager transfers with the poolId', async function() {
+    const amount = parseWei(0.25, 18)
+    const single = useLog(MANAGER, EventParser.MANAGER_INTERFACE, 'TransferSingle', [
+      AddressOne,
+      AddressZero,
+      AddressOne,
+      pool.poolId,
+      amount.raw
+    ])
+    const batch = useLog(MANAGER, EventParser.MANAGER_INTERFACE, 'TransferBatch', [
+      AddressOne,
+      AddressOne,
+      AddressZero,
+      [pool.poolId],
+      [amount.raw]
+    ])
+    const [mint, burn] = EventParser.parseLogs([single, batch])
+    if (mint.type !== EventType.TransferSingle || burn.type !== EventType.TransferBatch) throw new Error('Wrong events')
+    expect(mint.poolId).toBe(pool.poolId)
+    expect(mint.from).toBe(AddressZero)
+    expect(mint.amount.raw.toString()).toBe(amount.raw.toString())
+    expect(burn.poolIds).toStrictEqual([pool.poolId])
+    expect(burn.amounts[0].raw.toString()).toBe(amount.raw.toString())
+  })
+
+  it('#parseLogs skips unknown logs', async function() {
+    const log = useLog(pool.address, Engine.INTERFACE, 'UpdateLastTimestamp', [pool.poolId])
+    const unknown = { ...log, topics: ['0x' + 'ff'.repeat(32)] }
+    const events = EventParser.parseLogs([unknown, log])
+    expect(events.length).toBe(1)
+    expect(events[0].type).toBe(EventType.UpdateLastTimestamp)
+    expect(EventParser.parseLog(unknown)).toBeUndefined()
+  })
+})
@@ -0,0 +1,37 @@
+import { parseWei } from 'web3-units'
+
+import { Pool, PoolSides } from '../src/entities/pool'
+import { Exit } from '../src/entities/exit'
+
+import { useWethPool } from './shared/fixture'
+
+describe('Exit', function() {
+  let pool: Pool
+
+  beforeEach(async function() {
+    pool = useWethPool()
+  })
+
+  it('#exactIn removes and swaps risky to stable', async function() {
+    const delLiquidity = parseWei(0.1)
+    const exit = Exit.exactIn(pool, delLiquidity, pool.stable)
+    const { delRisky, delStable } = pool.liquidityQuote(delLiquidity, PoolSides.RMM_LP)
+    expect(exit.riskyForStable).toBe(true)
+    expect(exit.trade.inputAmount.raw.eq(delRisky.raw)).toBe(true)
+    expect(exit.trade.pool.liquidity.raw.eq(pool.liquidity.sub(delLiquidity).raw)).toBe(true)
+    expect(exit.outputAmount.raw.eq(delStable.add(exit.trade.outputAmount).raw)).toBe(true)
+    expect(exit.poolAfter.reserveRisky.raw.eq(pool.reserveRisky.raw)).toBe(true)
+  })
+
+  it('#exactIn removes and swaps stable to risky', async function() {
+    const exit = Exit.exactIn(pool, parseWei(0.1), pool.risky)
+    expect(exit.riskyForStable).toBe(false)
+    expect(exit.outputToken.equals(pool.risky)).toBe(true)
+    expect(exit.trade.inputAmount.raw.eq(exit.delStable.raw)).toBe(true)
+    expect(exit.outputAmount.raw.eq(exit.delRisky.add(exit.trade.outputAmount).raw)).toBe(true)
+  })
+
+  it('fails if the liquidity exceeds the pool liquidity', async function() {
+    expect(() => Exit.exactIn(pool, pool.liquidity.add(1), pool.stable)).toThrow()
+  })
+})
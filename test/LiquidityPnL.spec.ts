@@ -0,0 +1,90 @@
+import { parseWei, Time, Wei } from 'web3-units'
+
+import { Pool } from '../src/entities/pool'
+import { LiquidityPnL } from '../src/entities/liquidityPnL'
+import { PoolInterface } from '../src/entities/interfaces'
+
+import { usePool } from './shared/fixture'
+
+describe('LiquidityPnL', function() {
+  let pool: Pool
+  let liquidity: Wei
+
+  beforeEach(async function() {
+    pool = usePool()
+    liquidity = parseWei(0.5, 18)
+  })
+
+  it('#between the same snapshot is zero', async function() {
+    const result = LiquidityPnL.between(pool, pool, liquidity, 10, 10)
+    expect(result.pnl).toBe(0)
+    expect(result.impermanentLoss).toBeCloseTo(0, 12)
+    expect(result.priceEffect).toBe(0)
+    expect(result.timeDecay).toBe(0)
+    expect(result.feeIncome).toBe(0)
+    expect(result.residual).toBe(0)
+    expect(result.currentValue).toBeCloseTo(result.coveredCallValue, 2)
+  })
+
+  it('#between splits the pnl of a price move', async function() {
+    const target = (pool.reportedPriceOfRisky as Wei).mul(90).div(100)
+    const { poolAfter, riskyForStable, fee } = pool.swapToPrice(target)
+    const result = LiquidityPnL.between(pool, poolAfter, liquidity, 10, target.float)
+
+    expect(result.impermanentLoss).toBeLessThan(0)
+    expect(result.priceEffect).toBeLessThan(0)
+    expect(result.priceEffect + result.timeDecay + result.feeIncome + result.residual).toBeCloseTo(result.pnl, 9)
+
+    // the share of the risky tokens paid as a fee, valued at the price after the swap
+    const feeValue = ((fee.float * liquidity.float) / pool.liquidity.float) * target.float
+    expect(riskyForStable).toBe(true)
+    expect(Math.abs(result.feeIncome - feeValue)).toBeLessThan(feeValue / 100)
+  })
+
+  it('#between has positive time decay', async function() {
+    const later = usePool()
+    later.lastTimestamp = new Time(pool.lastTimestamp.raw + Time.YearInSeconds / 2)
+    const result = LiquidityPnL.between(pool, later, liquidity, 10, 10)
+    expect(result.timeDecay).toBeGreaterThan(0)
+    expect(result.priceEffect).toBe(0)
+    expect(result.feeIncome).toBe(0)
+  })
+
+  it('#between accepts a pool interface', async function() {
+    const entry: PoolInterface = {
+      name: 'Pool',
+      image: '',
+      license: '',
+      creator: '',
+      description: '',
+      properties: {
+        chainId: '1',
+        factory: pool.factory,
+        riskyName: pool.risky.name,
+        riskyAddress: pool.risky.address,
+        riskySymbol: pool.risky.symbol,
+        riskyDecimals: pool.risky.decimals,
+        stableName: pool.stable.name,
+        stableAddress: pool.stable.address,
+        stableSymbol: pool.stable.symbol,
+        stableDecimals: pool.stable.decimals,
+        strike: pool.strike.toString(),
+        sigma: pool.sigma.toString(),
+        maturity: pool.maturity.toString(),
+        gamma: pool.gamma.toString(),
+        lastTimestamp: pool.lastTimestamp.toString(),
+        reserveRisky: pool.reserveRisky.toString(),
+        reserveStable: pool.reserveStable.toString(),
+        liquidity: pool.liquidity.toString()
+      }
+    }
+    const result = LiquidityPnL.between(entry, pool, liquidity, 10, 10)
+    expect(result.pnl).toBeCloseTo(0, 9)
+  })
+
+  it('#getCoveredCallValue at maturity is the payoff', async function() {
+    pool.lastTimestamp = pool.maturity
+    expect(LiquidityPnL.getCoveredCallValue(pool, 12)).toBe(pool.strike.float)
+    expect(LiquidityPnL.getCoveredCallValue(pool, 8)).toBe(8)
+  })
+})
@@ -0,0 +1,115 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import { Time, Wei } from 'web3-units'
+
+import { Pool } from '../src/entities/pool'
+import { Oracle } from '../src/entities/oracle'
+import { Swaps } from '../src/entities/swaps'
+import { ReserveStruct } from '../src/entities/interfaces'
+
+import { usePool } from './shared/fixture'
+
+describe('Oracle', function() {
+  let pool: Pool
+  let reserve: ReserveStruct
+
+  beforeEach(async function() {
+    pool = usePool()
+    reserve = {
+      reserveRisky: pool.reserveRisky.raw.toString(),
+      reserveStable: pool.reserveStable.raw.toString(),
+      liquidity: pool.liquidity.raw.toString(),
+      blockTimestamp: '1',
+      cumulativeRisky: '0',
+      cumulativeStable: '0',
+      cumulativeLiquidity: '0'
+    }
+  })
+
+  it('#observe accumulates the current reserves', async function() {
+    const observation = Oracle.observe(reserve, 11)
+    expect(observation.timestamp).toBe(11)
+    expect(observation.cumulativeRisky.eq(pool.reserveRisky.raw.mul(10))).toBe(true)
+    expect(observation.cumulativeStable.eq(pool.reserveStable.raw.mul(10))).toBe(true)
+    expect(observation.cumulativeLiquidity.eq(pool.liquidity.raw.mul(10))).toBe(true)
+  })
+
+  it('#observe fails without cumulative values', async function() {
+    expect(() => Oracle.observe({ ...reserve, blockTimestamp: undefined })).toThrow('Reserve is missing cumulative')
+  })
+
+  it('#consult of constant reserves', async function() {
+    const twap = Oracle.consult(pool, [Oracle.observe(reserve), Oracle.observe(reserve, 61)])
+    expect(twap.deltaTime).toBe(60)
+    expect(twap.averageRisky.raw.eq(pool.reserveRisky.raw)).toBe(true)
+    expect(twap.averageStable.raw.eq(pool.reserveStable.raw)).toBe(true)
+    expect(twap.averageLiquidity.raw.eq(pool.liquidity.raw)).toBe(true)
+    expect(twap.riskyPerLiquidity.raw.eq(pool.reserveRisky.raw)).toBe(true)
+
+    pool.lastTimestamp = new Time(61)
+    expect((twap.priceOfRisky as Wei).float).toBeCloseTo((pool.reportedPriceOfRisky as Wei).float, 6)
+  })
+
+  it('#consult weights reserves by time', async function() {
+    const first = Oracle.observe(reserve)
+    const second = Oracle.observe(reserve, 31)
+    const doubled: ReserveStruct = {
+      ...reserve,
+      reserveRisky: pool.reserveRisky.raw.mul(2).toString(),
+      blockTimestamp: '31',
+      cumulativeRisky: second.cumulativeRisky.toString(),
+      cumulativeStable: second.cumulativeStable.toString(),
+      cumulativeLiquidity: second.cumulativeLiquidity.toString()
+    }
+    const third = Oracle.observe(doubled, 61)
+    const twap = Oracle.consult(pool, [first, second, third])
+    expect(twap.deltaTime).toBe(60)
+    expect(twap.averageRisky.raw.eq(pool.reserveRisky.raw.mul(3).div(2))).toBe(true)
+  })
+
+  it('#consult weights the reported price of each interval by time', async function() {
+    const second = Oracle.observe(reserve, 31)
+    const halved: ReserveStruct = {
+      ...reserve,
+      reserveRisky: pool.reserveRisky.raw.div(2).toString(),
+      blockTimestamp: '31',
+      cumulativeRisky: second.cumulativeRisky.toString(),
+      cumulativeStable: second.cumulativeStable.toString(),
+      cumulativeLiquidity: second.cumulativeLiquidity.toString()
+    }
+    const twap = Oracle.consult(pool, [Oracle.observe(reserve), second, Oracle.observe(halved, 61)])
+
+    const priceAt = (reserveRisky: Wei, timestamp: number) => {
+      const snapshot = usePool()
+      snapshot.lastTimestamp = new Time(timestamp)
+      const riskyPerLiquidity = reserveRisky.float / snapshot.liquidity.float
+      const { strike, sigma, tau } = snapshot
+      return Swaps.getReportedPriceOfRisky(riskyPerLiquidity, strike.float, sigma.float, tau.years)
+    }
+    const expected = (priceAt(pool.reserveRisky, 31) + priceAt(pool.reserveRisky.div(2), 61)) / 2
+    expect((twap.priceOfRisky as Wei).float).toBeCloseTo(expected, 6)
+  })
+
+  it('#consult handles overflow of the accumulators and timestamp', async function() {
+    const start = Oracle.TIMESTAMP_MODULO - 10
+    const cumulative = Oracle.CUMULATIVE_MODULO.sub(1).toString()
+    const wrapping: ReserveStruct = {
+      ...reserve,
+      blockTimestamp: start.toString(),
+      cumulativeRisky: cumulative,
+      cumulativeStable: cumulative,
+      cumulativeLiquidity: cumulative
+    }
+    const last = Oracle.observe(wrapping, start + 20)
+    expect(last.timestamp).toBe(10)
+    expect(last.cumulativeRisky.lt(BigNumber.from(cumulative))).toBe(true)
+
+    const twap = Oracle.consult(pool, [Oracle.observe(wrapping), last])
+    expect(twap.deltaTime).toBe(20)
+    expect(twap.averageRisky.raw.eq(pool.reserveRisky.raw)).toBe(true)
+    expect(twap.averageLiquidity.raw.eq(pool.liquidity.raw)).toBe(true)
+  })
+
+  it('#consult fails with one observation', async function() {
+    expect(() => Oracle.consult(pool, [Oracle.observe(reserve)])).toThrow('Not enough observations')
+  })
+})
@@ -0,0 +1,94 @@
+import { Token } from '@uniswap/sdk-core'
+import { parsePercentage, parseWei, Time, toBN } from 'web3-units'
+
+import { Pool } from '../src/entities/pool'
+import { PathTrade } from '../src/entities/pathTrade'
+import { SwapManager } from '../src/swapManager'
+
+import { usePool } from './shared/fixture'
+import { AddressOne } from './shared/constants'
+
+function decode(frag: string, data: any) {
+  return SwapManager.INTERFACE.decodeFunctionData(frag, data)
+}
+
+describe('PathTrade', function() {
+  let tokenA: Token, tokenB: Token, tokenC: Token
+  let poolAB: Pool, poolCB: Pool
+
+  beforeEach(async function() {
+    const pool = usePool()
+    tokenA = new Token(1, '0x000000000000000000000000000000000000000A', 18)
+    tokenB = new Token(1, '0x000000000000000000000000000000000000000b', 18)
+    tokenC = new Token(1, '0x000000000000000000000000000000000000000C', 18)
+    const calibration = {
+      strike: pool.strike.raw.toString(),
+      sigma: pool.sigma.raw.toString(),
+      maturity: pool.maturity.raw.toString(),
+      gamma: pool.gamma.raw.toString(),
+      lastTimestamp: pool.lastTimestamp.raw.toString()
+    }
+    poolAB = Pool.fromReferencePrice(10, pool.factory, tokenA, tokenB, calibration)
+    poolCB = Pool.fromReferencePrice(10, pool.factory, tokenC, tokenB, calibration)
+  })
+
+  it('#exactIn chains the output of each hop', async function() {
+    const amountIn = parseWei(0.01, tokenA.decimals)
+    const trade = PathTrade.exactIn([poolAB, poolCB], tokenA, amountIn)
+    const first = poolAB.amountOutX64(tokenA, amountIn).output
+    const second = poolCB.amountOutX64(tokenB, first).output
+
+    expect(trade.path.map(token => token.address)).toEqual([tokenA.address, tokenB.address, tokenC.address])
+    expect(trade.hops[0].riskyForStable).toBe(true)
+    expect(trade.hops[1].riskyForStable).toBe(false)
+    expect(trade.hops[1].inputAmount.raw.eq(first.raw)).toBe(true)
+    expect(trade.inputAmount.raw.eq(amountIn.raw)).toBe(true)
+    expect(trade.outputAmount.raw.eq(second.raw)).toBe(true)
+  })
+
+  it('#exactIn fails if a pool does not involve the previous output', async function() {
+    expect(() => PathTrade.exactIn([poolAB, poolCB], tokenB, parseWei(0.01, tokenB.decimals))).toThrow()
+  })
+
+  it('constructor fails if a hop does not pay the previous output', async function() {
+    const trade = PathTrade.exactIn([poolAB, poolCB], tokenA, parseWei(0.01, tokenA.decimals))
+    const other = PathTrade.exactIn([poolCB], tokenB, parseWei(0.02, tokenB.decimals))
+    expect(() => new PathTrade([trade.hops[0], other.hops[0]])).toThrow()
+  })
+
+  it('#pathSwapCallParameters withdraws intermediate margin and pays the minimum output of each hop forward', async function() {
+    const trade = PathTrade.exactIn([poolAB, poolCB], tokenA, parseWei(0.01, tokenA.decimals))
+    const slippageTolerance = parsePercentage(0.01)
+    const sender = '0x0000000000000000000000000000000000000002'
+    const { calldata, value } = SwapManager.pathSwapCallParameters(trade, {
+      recipient: AddressOne,
+      sender,
+      deadline: toBN(Time.YearInSeconds),
+      slippageTolerance
+    })
+
+    const [hop0, hop1] = trade.hops
+    const minOut0 = SwapManager.minimumAmountOut(slippageTolerance, hop0.outputAmount)
+    const quote1 = hop1.pool.amountOutX64(hop1.inputToken, minOut0).output
+    const [calldatas] = decode('multicall', calldata)
+    expect(calldatas.length).toBe(3)
+
+    const first = decode('swap', calldatas[0])[0]
+    expect(first.recipient).toBe(sender)
+    expect(first.toMargin).toBe(true)
+    expect(first.deltaOut).toStrictEqual(minOut0.raw)
+
+    const withdraw = decode('withdraw', calldatas[1])
+    expect(withdraw[0]).toBe(sender)
+    expect(withdraw[1]).toBe(poolAB.address)
+    expect(withdraw[3]).toStrictEqual(minOut0.raw)
+
+    const last = decode('swap', calldatas[2])[0]
+    expect(last.recipient).toBe(AddressOne)
+    expect(last.fromMargin).toBe(false)
+    expect(last.toMargin).toBe(false)
+    expect(last.deltaIn).toStrictEqual(minOut0.raw)
+    expect(last.deltaOut).toStrictEqual(SwapManager.minimumAmountOut(slippageTolerance, quote1).raw)
+    expect(value).toBe('0x00')
+  })
+})
@@ -1,11 +1,13 @@
 import { BigNumber, ContractFactory } from 'ethers'
-import { parsePercentage, parseWei, Percentage } from 'web3-units'
+import { parsePercentage, parseWei, Percentage, Time } from 'web3-units'
 import { AddressZero } from '@ethersproject/constants'
 import { Ether, NativeCurrency } from '@uniswap/sdk-core'
 
 import { Pool, PoolSides } from '../src/entities/pool'
 import { Swaps } from '../src/entities/swaps'
+import { Position } from '../src/entities/position'
 import { PeripheryManager } from '../src/peripheryManager'
+import { PermitType } from '../src/selfPermit'
 
 import { AddressOne } from './shared/constants'
 import { usePool, usePoolWithDecimals, useWethPool } from './shared/fixture'
@@ -135,6 +137,35 @@ describe('Periphery Manager', function() {
       expect(value).toBe('0x00')
     })
 
+    it('encodes each permit type', async function() {
+      const rsv = { v: 27 as 27, r: '0x' + '11'.repeat(32), s: '0x' + '22'.repeat(32) }
+      const { calldata } = PeripheryManager.depositCallParameters(pool, {
+        recipient: from,
+        amountRisky: parseWei(1),
+        amountStable: parseWei(1),
+        permitRisky: { ...rsv, type: PermitType.STANDARD, amount: BigNumber.from(1), deadline: BigNumber.from(2) },
+        permitStable: { ...rsv, type: PermitType.ALLOWED, nonce: BigNumber.from(3), expiry: BigNumber.from(4) }
+      })
+      const [calldatas] = decode('multicall', calldata)
+      const standard = decode('selfPermit', calldatas[0])
+      const allowed = decode('selfPermitAllowed', calldatas[1])
+      expect(standard[1].toString()).toBe('1')
+      expect(allowed[1].toString()).toBe('3')
+    })
+
+    it('fails with a permit without a type', async function() {
+      const rsv = { v: 27 as 27, r: '0x' + '11'.repeat(32), s: '0x' + '22'.repeat(32) }
+      const permitRisky = { ...rsv, nonce: BigNumber.from(3), expiry: BigNumber.from(4) } as any
+      expect(() =>
+        PeripheryManager.depositCallParameters(pool, {
+          recipient: from,
+          amountRisky: parseWei(1),
+          amountStable: parseWei(1),
+          permitRisky
+        })
+      ).toThrow('Unknown permit type: undefined')
+    })
+
     it('uses native token successfully', async function() {
       const recipient = from
       const amountRisky = parseWei(1)
@@ -782,6 +813,79 @@ describe('Periphery Manager', function() {
     })
   })
 
+  describe('#closeOutCallParameters', function() {
+    it('successful', async function() {
+      const delLiquidity = parseWei(0.5, 18)
+      const timestamp = new Time(pool.maturity.raw + 1)
+      const { calldata, value } = PeripheryManager.closeOutCallParameters(pool, {
+        delLiquidity,
+        recipient: from,
+        timestamp
+      })
+
+      const { delRisky, delStable } = pool.liquidityQuote(delLiquidity, PoolSides.RMM_LP)
+      const [calldatas] = decode('multicall', calldata)
+      const remove = decode('remove', calldatas[0])
+      const withdraw = decode('withdraw', calldatas[1])
+      expect(remove[2].toString()).toBe(delLiquidity.raw.toString())
+      expect(remove[3].toString()).toBe(delRisky.raw.toString())
+      expect(remove[4].toString()).toBe(delStable.raw.toString())
+      expect(withdraw[0]).toBe(from)
+      expect(withdraw[2].toString()).toBe(delRisky.raw.toString())
+      expect(withdraw[3].toString()).toBe(delStable.raw.toString())
+      expect(value).toBe('0x00')
+    })
+
+    it('fails if the pool is not expired', async function() {
+      expect(() =>
+        PeripheryManager.closeOutCallParameters(pool, {
+          delLiquidity: parseWei(0.5, 18),
+          recipient: from,
+          timestamp: pool.maturity
+        })
+      ).toThrow('Pool is not expired')
+    })
+  })
+
+  describe('#removePositionCallParameters', function() {
+    it('removes the liquidity and withdraws it with the margin', async function() {
+      const delLiquidity = parseWei(0.5, 18)
+      const margin = parseWei(1)
+      const position = new Position(pool, delLiquidity, margin, margin)
+      const { calldata, value } = PeripheryManager.removePositionCallParameters(position, {
+        recipient: from,
+        slippageTolerance: parsePercentage(0)
+      })
+
+      const { delRisky, delStable } = pool.liquidityQuote(delLiquidity, PoolSides.RMM_LP)
+      const [calldatas] = decode('multicall', calldata)
+      const remove = decode('remove', calldatas[0])
+      const withdraw = decode('withdraw', calldatas[1])
+      expect(remove[2].toString()).toBe(delLiquidity.raw.toString())
+      expect(withdraw[2].toString()).toBe(delRisky.add(margin).raw.toString())
+      expect(withdraw[3].toString()).toBe(delStable.add(margin).raw.toString())
+      expect(value).toBe('0x00')
+    })
+
+    it('only withdraws the margin without liquidity', async function() {
+      const position = new Position(pool, parseWei(0), parseWei(1))
+      const { calldata } = PeripheryManager.removePositionCallParameters(position, {
+        recipient: from,
+        slippageTolerance: parsePercentage(0)
+      })
+      const withdraw = decode('withdraw', calldata)
+      expect(withdraw[2].toString()).toBe(parseWei(1).raw.toString())
+      expect(withdraw[3].toString()).toBe('0')
+    })
+
+    it('fails with an empty position', async function() {
+      const position = new Position(pool, parseWei(0))
+      expect(() =>
+        PeripheryManager.removePositionCallParameters(position, { recipient: from, slippageTolerance })
+      ).toThrow('Position is empty')
+    })
+  })
+
   describe('#safeTransferFromParameters', function() {
     it('successful', async function() {
       const recipient = from
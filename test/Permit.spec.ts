@@ -0,0 +1,87 @@
+import { Wallet } from 'ethers'
+import { splitSignature } from 'ethers/lib/utils'
+import { Token } from '@uniswap/sdk-core'
+
+import { Permit, PermitTypedData } from '../src/permit'
+import { PermitType } from '../src/selfPermit'
+
+import { AddressOne } from './shared/constants'
+
+describe('Permit', function() {
+  const wallet = new Wallet('0x' + '01'.repeat(32))
+  const other = new Wallet('0x' + '02'.repeat(32))
+  const token = new Token(1, '0x0000000000000000000000000000000000000003', 18, 'TKN', 'Token')
+
+  async function sign(signer: Wallet, data: PermitTypedData) {
+    return signer._signTypedData(data.domain, data.types, data.values)
+  }
+
+  it('#getStandardPermitData builds the domain of the token', async function() {
+    const data = Permit.getStandardPermitData(token, {
+      name: 'Token',
+      owner: wallet.address,
+      spender: AddressOne,
+      amount: 100,
+      nonce: 0,
+      deadline: 1000
+    })
+    expect(data.domain).toStrictEqual({ name: 'Token', version: '1', chainId: 1, verifyingContract: token.address })
+    expect(data.values.value).toBe('100')
+  })
+
+  it('#toStandardPermitArguments from a signature', async function() {
+    const data = Permit.getStandardPermitData(token, {
+      name: 'Token',
+      version: '2',
+      chainId: 5,
+      owner: wallet.address,
+      spender: AddressOne,
+      amount: 100,
+      nonce: 1,
+      deadline: 1000
+    })
+    const signature = await sign(wallet, data)
+    const args = Permit.toStandardPermitArguments(data, signature)
+    const { v, r, s } = splitSignature(signature)
+    expect(args.type).toBe(PermitType.STANDARD)
+    expect(args.amount.toString()).toBe('100')
+    expect(args.deadline.toString()).toBe('1000')
+    expect([args.v, args.r, args.s]).toStrictEqual([v, r, s])
+  })
+
+  it('#toAllowedPermitArguments from a compact signature', async function() {
+    const data = Permit.getAllowedPermitData(token, {
+      name: 'Dai Stablecoin',
+      holder: wallet.address,
+      spender: AddressOne,
+      nonce: 3,
+      expiry: 0
+    })
+    const signature = await sign(wallet, data)
+    const compact = splitSignature(signature).compact
+    const args = Permit.toAllowedPermitArguments(data, compact)
+    expect(args.type).toBe(PermitType.ALLOWED)
+    expect(args.nonce.toString()).toBe('3')
+    expect(args.expiry.toString()).toBe('0')
+    expect(Permit.splitSignature(compact)).toStrictEqual(Permit.splitSignature(signature))
+    expect(Permit.recoverSigner(data, compact)).toBe(wallet.address)
+  })
+
+  it('fails if the signer is not the owner', async function() {
+    const data = Permit.getStandardPermitData(token, {
+      name: 'Token',
+      owner: wallet.address,
+      spender: AddressOne,
+      amount: 100,
+      nonce: 0,
+      deadline: 1000
+    })
+    const signature = await sign(other, data)
+    expect(() => Permit.toStandardPermitArguments(data, signature)).toThrow('is not the permit owner')
+    expect(() => Permit.toAllowedPermitArguments(data, signature)).toThrow('Not a DAI-style permit')
+  })
+
+  it('fails with an invalid signature length', async function() {
+    expect(() => Permit.splitSignature('0x1234')).toThrow()
+  })
+})
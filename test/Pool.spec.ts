@@ -1,5 +1,6 @@
 import { Token } from '@uniswap/sdk-core'
-import { parseWei, Time } from 'web3-units'
+import { callPremium } from '@primitivefi/rmm-math'
+import { parseWei, Time, Wei } from 'web3-units'
 
 import { Swaps } from '../src/entities/swaps'
 import { Pool, PoolSides } from '../src/entities/pool'
@@ -130,6 +131,16 @@ describe('Test pool', function() {
     expect(liquidityQuote.delStable.float).toBeCloseTo(delStable.float)
   })
 
+  it('#allocationQuote allocates the scarce side entirely', async function() {
+    const maxRisky = pool.reserveRisky.div(10)
+    const maxStable = pool.reserveStable
+    const quote = pool.allocationQuote(maxRisky, maxStable)
+    expect(quote.delRisky.raw.eq(maxRisky.raw)).toBe(true)
+    expect(quote.delStable.lt(maxStable)).toBe(true)
+    const allocated = pool.applyAllocate(quote.delRisky, quote.delStable)
+    expect(allocated.liquidity.raw.eq(pool.liquidity.add(quote.delLiquidity).raw)).toBe(true)
+  })
+
   it('pool.liquidityQuote() with a fresh pool', async function() {
     const amount = parseWei('0.5')
     const liquidityQuote = pool.liquidityQuote(amount, PoolSides.RISKY)
@@ -149,6 +160,33 @@ describe('Test pool', function() {
   it('#premium', async function() {
     expect(pool.premium).toBeGreaterThan(0)
   })
+  it('#greeks', async function() {
+    const greeks = pool.greeks
+    expect(greeks).toBeDefined()
+    expect(greeks?.delta).toBeCloseTo(1 - (pool.delta ?? 0))
+    expect(greeks?.gamma).toBeLessThan(0)
+    expect(greeks?.vega).toBeLessThan(0)
+    expect(greeks?.theta).toBeGreaterThan(0)
+    expect(greeks?.rho).toBeLessThan(0)
+  })
+  it('#greeks matches the change in liquidity value', async function() {
+    const { strike, sigma, tau } = pool
+    const spot = 10
+    const value = (price: number, years = tau.years) => price - callPremium(strike.float, sigma.float, years, price)
+    const greeks = Pool.getGreeks(strike.float, sigma.float, tau.years, spot)
+    expect((value(spot + 0.001) - value(spot - 0.001)) / 0.002).toBeCloseTo(greeks.delta, 3)
+    const dayInYears = 86400 / Time.YearInSeconds
+    expect(value(spot, tau.years - dayInYears) - value(spot)).toBeCloseTo(greeks.theta, 3)
+  })
+  it('#greeksOf', async function() {
+    const liquidity = parseWei(2, 18)
+    const greeks = pool.greeks
+    const scaled = pool.greeksOf(liquidity)
+    expect(scaled?.delta.decimals).toBe(pool.risky.decimals)
+    expect(scaled?.theta.decimals).toBe(pool.stable.decimals)
+    expect(scaled?.theta.float).toBeCloseTo((greeks?.theta ?? 0) * 2)
+    expect(scaled?.vega.float).toBeCloseTo((greeks?.vega ?? 0) * 2)
+  })
   it('#inTheMoney', async function() {
     expect(pool.inTheMoney).toBe(pool.reportedPriceOfRisky && pool.reportedPriceOfRisky.float >= pool.strike.float)
   })
@@ -192,6 +230,190 @@ describe('Test pool', function() {
     const amountIn = parseWei(0.0001, pool.stable.decimals).float
     expect(pool.amountOut(tokenIn, amountIn).output).toBeGreaterThan(0)
   }) */
+  it('#amountInX64 risky out', async function() {
+    const tokenOut = pool.risky
+    const amountOut = parseWei(0.0001, pool.risky.decimals)
+    expect(pool.amountInX64(tokenOut, amountOut).input.gt(0)).toBe(true)
+  })
+  it('#amountOutX64 risky in', async function() {
+    const tokenIn = pool.risky
+    const amountIn = parseWei(0.0001, pool.risky.decimals)
+    expect(pool.amountOutX64(tokenIn, amountIn).output.gt(0)).toBe(true)
+  })
+  it('#amountInX64 stable out', async function() {
+    const tokenOut = pool.stable
+    const amountOut = parseWei(0.0001, pool.stable.decimals)
+    expect(pool.amountInX64(tokenOut, amountOut).input.gt(0)).toBe(true)
+  })
+  it('#amountOutX64 stable in', async function() {
+    const tokenIn = pool.stable
+    const amountIn = parseWei(0.0001, pool.stable.decimals)
+    expect(pool.amountOutX64(tokenIn, amountIn).output.gt(0)).toBe(true)
+  })
+  it('#amountIn and #amountOut of a Wei use the integer math', async function() {
+    const amount = parseWei(0.0001, pool.risky.decimals)
+    const { output } = pool.amountOut(pool.risky, amount)
+    const { input } = pool.amountIn(pool.risky, amount)
+    expect(output.raw.eq(pool.amountOutX64(pool.risky, amount).output.raw)).toBe(true)
+    expect(input.raw.eq(pool.amountInX64(pool.risky, amount).input.raw)).toBe(true)
+  })
+  it('#amountOutX64 fails if token is not in pair', async function() {
+    const tokenIn = new Token(1, AddressOne, 18)
+    expect(() => pool.amountOutX64(tokenIn, parseWei(1, 18))).toThrow()
+  })
+  it('#applySwap', async function() {
+    const amountIn = parseWei(0.01, pool.risky.decimals)
+    const { output } = pool.amountOutX64(pool.risky, amountIn)
+    const next = pool.applySwap(true, amountIn, output)
+    expect(next).not.toBe(pool)
+    expect(next.reserveRisky.raw.eq(pool.reserveRisky.add(amountIn).raw)).toBe(true)
+    expect(next.reserveStable.raw.eq(pool.reserveStable.sub(output).raw)).toBe(true)
+    expect(next.liquidity.raw.eq(pool.liquidity.raw)).toBe(true)
+    expect(next.invariant.raw.gte(pool.invariant.raw)).toBe(true)
+    expect(next.poolId).toBe(pool.poolId)
+  })
+  it('#applySwap updates lastTimestamp', async function() {
+    const timestamp = pool.lastTimestamp.add(100)
+    const amountIn = parseWei(0.01, pool.risky.decimals)
+    const { output } = pool.amountOutX64(pool.risky, amountIn)
+    const next = pool.applySwap(true, amountIn, output.div(2), timestamp)
+    expect(next.lastTimestamp.raw).toBe(timestamp.raw)
+    expect(pool.lastTimestamp.raw).not.toBe(timestamp.raw)
+  })
+  it('#applySwap fails if invariant decreases', async function() {
+    const amountIn = parseWei(0.01, pool.risky.decimals)
+    const { output } = pool.amountOutX64(pool.risky, amountIn)
+    expect(() => pool.applySwap(true, amountIn, output.add(1))).toThrow()
+  })
+  it('#applySwap fails after expiry', async function() {
+    const amountIn = parseWei(0.01, pool.risky.decimals)
+    const timestamp = pool.maturity.add(121)
+    expect(() => pool.applySwap(true, amountIn, parseWei(0.0001, pool.stable.decimals), timestamp)).toThrow()
+  })
+  it('#applyAllocate', async function() {
+    const { delRisky, delStable, delLiquidity } = pool.liquidityQuote(parseWei(0.5, 18), PoolSides.RMM_LP)
+    const next = pool.applyAllocate(delRisky, delStable)
+    expect(next.reserveRisky.raw.eq(pool.reserveRisky.add(delRisky).raw)).toBe(true)
+    expect(next.reserveStable.raw.eq(pool.reserveStable.add(delStable).raw)).toBe(true)
+    expect(next.liquidity.float).toBeCloseTo(pool.liquidity.add(delLiquidity).float)
+    expect(next.lastTimestamp.raw).toBe(pool.lastTimestamp.raw)
+  })
+  it('#applyRemove', async function() {
+    const delLiquidity = parseWei(0.5, 18)
+    const { delRisky, delStable } = pool.liquidityQuote(delLiquidity, PoolSides.RMM_LP)
+    const next = pool.applyRemove(delLiquidity)
+    expect(next.reserveRisky.raw.eq(pool.reserveRisky.sub(delRisky).raw)).toBe(true)
+    expect(next.reserveStable.raw.eq(pool.reserveStable.sub(delStable).raw)).toBe(true)
+    expect(next.liquidity.raw.eq(pool.liquidity.sub(delLiquidity).raw)).toBe(true)
+    expect(() => pool.applyRemove(pool.liquidity.add(1))).toThrow()
+  })
+  it('#applyUpdateLastTimestamp caps at maturity', async function() {
+    const next = pool.applyUpdateLastTimestamp(new Time(100))
+    expect(next.lastTimestamp.raw).toBe(100)
+    expect(next.reserveRisky.raw.eq(pool.reserveRisky.raw)).toBe(true)
+    expect(pool.applyUpdateLastTimestamp(pool.maturity.add(1)).lastTimestamp.raw).toBe(pool.maturity.raw)
+  })
+  it('#applyRemove keeps the exact referencePriceOfRisky', async function() {
+    pool.referencePriceOfRisky = new Wei(parseWei(10, 18).raw.add(1), 18)
+    expect(pool.applyRemove(parseWei(0.5, 18)).referencePriceOfRisky?.raw.eq(pool.referencePriceOfRisky.raw)).toBe(true)
+    pool.referencePriceOfRisky = parseWei(0, 18)
+    expect(pool.applyUpdateLastTimestamp(new Time(100)).referencePriceOfRisky?.raw.isZero()).toBe(true)
+  })
+  it('#applyCreate', async function() {
+    const { strike, sigma, maturity, gamma } = pool
+    const calibration = {
+      strike: strike.raw.toString(),
+      sigma: sigma.raw.toString(),
+      maturity: maturity.raw.toString(),
+      gamma: gamma.raw.toString(),
+      lastTimestamp: '1'
+    }
+    const riskyPerLp = parseWei(0.5, pool.risky.decimals)
+    const created = Pool.applyCreate(1, pool.factory, pool.risky, pool.stable, calibration, riskyPerLp, parseWei(1, 18))
+    expect(created.poolId).toBe(pool.poolId)
+    expect(created.reserveRisky.raw.eq(riskyPerLp.raw)).toBe(true)
+    expect(created.reserveStable.gt(0)).toBe(true)
+    expect(created.liquidity.raw.eq(parseWei(1, 18).raw)).toBe(true)
+    expect(created.lastTimestamp.raw).toBe(1)
+  })
+  it('#swapToPrice up pays stable', async function() {
+    const target = (pool.reportedPriceOfRisky as Wei).mul(105).div(100)
+    const result = pool.swapToPrice(target)
+    expect(result.riskyForStable).toBe(false)
+    expect(result.fee.gt(0)).toBe(true)
+    expect(result.poolAfter.reserveStable.raw.eq(pool.reserveStable.add(result.input).raw)).toBe(true)
+    expect(Math.abs((result.priceAfter as Wei).float - target.float) / target.float).toBeLessThan(1e-4)
+  })
+
+  it('#swapToPrice down pays risky', async function() {
+    const target = (pool.reportedPriceOfRisky as Wei).mul(95).div(100)
+    const result = pool.swapToPrice(target)
+    expect(result.riskyForStable).toBe(true)
+    expect(result.output.raw.eq(pool.amountOutX64(pool.risky, result.input).output.raw)).toBe(true)
+    expect(Math.abs((result.priceAfter as Wei).float - target.float) / target.float).toBeLessThan(1e-4)
+  })
+
+  it('#swapToPrice fails if expired', async function() {
+    pool.lastTimestamp = pool.maturity
+    expect(() => pool.swapToPrice(parseWei(11, pool.stable.decimals))).toThrow('Pool is expired')
+  })
+
+  it('#atTimestamp', async function() {
+    const timestamp = new Time(pool.lastTimestamp.raw + Time.YearInSeconds / 2)
+    const projected = pool.atTimestamp(timestamp, 10)
+    const tau = pool.maturity.sub(timestamp).years
+    const risky = Swaps.getRiskyReservesGivenReferencePrice(pool.strike.float, pool.sigma.float, tau, 10)
+    expect(projected.lastTimestamp.raw).toBe(timestamp.raw)
+    expect(projected.poolId).toBe(pool.poolId)
+    expect(projected.liquidity.raw.eq(pool.liquidity.raw)).toBe(true)
+    expect(projected.reserveRisky.float).toBeCloseTo(risky, 9)
+    expect((projected.reportedPriceOfRisky as Wei).float).toBeCloseTo(10, 4)
+    expect(pool.lastTimestamp.raw).toBe(1)
+  })
+
+  it('#atTimestamp fails at maturity', async function() {
+    expect(() => pool.atTimestamp(pool.maturity, 10)).toThrow('Timestamp is not before maturity')
+  })
+
+  it('#impliedVolatility at the reference price is sigma', async function() {
+    expect(pool.impliedVolatility(10)).toBeCloseTo(pool.sigma.float, 6)
+  })
+
+  it('#impliedVolatility is higher if the spot price is below the reference price', async function() {
+    expect(pool.impliedVolatility(9)).toBeGreaterThan(pool.sigma.float)
+  })
+
+  it('#impliedVolatility fails if expired', async function() {
+    pool.lastTimestamp = pool.maturity
+    expect(() => pool.impliedVolatility(10)).toThrow('Pool is expired')
+  })
+
+  it('#impliedVolatility fails if out of range', async function() {
+    expect(() => pool.impliedVolatility(11)).toThrow('Implied volatility is out of range')
+  })
+
+  it('#toPoolInterface round trips with from', async function() {
+    const swapped = pool.applySwap(true, parseWei(0.01, 18), pool.amountOutX64(pool.risky, parseWei(0.01, 18)).output)
+    const restored = Pool.from(swapped.toPoolInterface())
+    expect(restored.poolId).toBe(swapped.poolId)
+    expect(restored.reserveRisky.raw.eq(swapped.reserveRisky.raw)).toBe(true)
+    expect(restored.reserveStable.raw.eq(swapped.reserveStable.raw)).toBe(true)
+    expect(restored.liquidity.raw.eq(swapped.liquidity.raw)).toBe(true)
+    expect(restored.invariant.raw.eq(swapped.invariant.raw)).toBe(true)
+    expect(restored.lastTimestamp.raw).toBe(swapped.lastTimestamp.raw)
+  })
+
+  it('#toJSON round trips with fromJSON', async function() {
+    pool.referencePriceOfRisky = new Wei(parseWei(10, 18).raw.add(1), 18)
+    const json = JSON.stringify(pool)
+    const restored = Pool.fromJSON(json)
+    expect(restored.poolId).toBe(pool.poolId)
+    expect(restored.invariant.raw.eq(pool.invariant.raw)).toBe(true)
+    expect(restored.reserveRisky.raw.eq(pool.reserveRisky.raw)).toBe(true)
+    expect(restored.referencePriceOfRisky?.raw.eq(pool.referencePriceOfRisky.raw)).toBe(true)
+    expect(JSON.stringify(restored)).toBe(json)
+  })
+
   it('#derivativeOut', async function() {
     const tokenIn = pool.risky
     const amountIn = 0
@@ -0,0 +1,193 @@
+import { AddressZero } from '@ethersproject/constants'
+import { parseWei } from 'web3-units'
+
+import { Engine } from '../src/entities/engine'
+import { Pool, PoolSides } from '../src/entities/pool'
+import { PoolStore } from '../src/poolStore'
+import { EventParser } from '../src/eventParser'
+
+import { AddressOne } from './shared/constants'
+import { useLog, usePool } from './shared/fixture'
+
+describe('PoolStore', function() {
+  let fixture: Pool, store: PoolStore, poolId: string
+
+  const creation = { riskyPerLp: parseWei(0.5), delLiquidity: parseWei(1) }
+
+  function create(blockNumber = 1, timestamp = 1) {
+    const log = useLog(
+      fixture.address,
+      Engine.INTERFACE,
+      'Create',
+      [AddressOne, fixture.strike.raw, fixture.sigma.raw, fixture.maturity.raw, fixture.gamma.raw],
+      blockNumber
+    )
+    store.applyLog(log, timestamp, creation)
+  }
+
+  function allocate(blockNumber: number, delRisky = parseWei(0.1), delStable = parseWei(1)) {
+    const values = [AddressOne, AddressOne, poolId, delRisky.raw, delStable.raw]
+    store.applyLog(useLog(fixture.address, Engine.INTERFACE, 'Allocate', values, blockNumber), 100)
+  }
+
+  beforeEach(async function() {
+    fixture = usePool()
+    store = new PoolStore([fixture])
+    poolId = fixture.poolId
+  })
+
+  it('#applyLog creates the pool like the engine', async function() {
+    create()
+    const expected = Pool.applyCreate(
+      fixture.chainId,
+      fixture.factory,
+      fixture.risky,
+      fixture.stable,
+      {
+        strike: fixture.strike.raw.toString(),
+        sigma: fixture.sigma.raw.toString(),
+        maturity: fixture.maturity.raw.toString(),
+        gamma: fixture.gamma.raw.toString(),
+        lastTimestamp: '1'
+      },
+      creation.riskyPerLp,
+      creation.delLiquidity
+    )
+    const pool = store.get(poolId) as Pool
+    expect(store.all.length).toBe(1)
+    expect(pool.toPoolInterface()).toStrictEqual(expected.toPoolInterface())
+    expect(store.lastBlockNumber).toBe(1)
+  })
+
+  it('#applyLog updates reserves on allocate, swap and remove', async function() {
+    create()
+    allocate(2)
+    const allocated = store.get(poolId) as Pool
+    expect(allocated.reserveRisky.float).toBeCloseTo(0.6, 12)
+    expect(allocated.lastTimestamp.raw).toBe(1)
+
+    const deltaIn = parseWei(0.01)
+    const { output } = allocated.amountOutX64(allocated.risky, deltaIn)
+    const swap = [AddressOne, AddressOne, poolId, true, deltaIn.raw, output.raw]
+    store.applyLog(useLog(fixture.address, Engine.INTERFACE, 'Swap', swap, 3), 200)
+    const swapped = store.get(poolId) as Pool
+    expect(swapped.lastTimestamp.raw).toBe(200)
+    expect(swapped.reserveRisky.raw.toString()).toBe(allocated.reserveRisky.add(deltaIn).raw.toString())
+
+    const delLiquidity = parseWei(0.3)
+    const { delRisky, delStable } = swapped.liquidityQuote(delLiquidity, PoolSides.RMM_LP)
+    const remove = [AddressOne, poolId, delRisky.raw, delStable.raw]
+    store.applyLog(useLog(fixture.address, Engine.INTERFACE, 'Remove', remove, 4), 300)
+    const removed = store.get(poolId) as Pool
+    expect(removed.reserveRisky.raw.toString()).toBe(swapped.reserveRisky.sub(delRisky).raw.toString())
+    expect(removed.reserveStable.raw.toString()).toBe(swapped.reserveStable.sub(delStable).raw.toString())
+    expect(removed.liquidity.raw.lte(swapped.liquidity.sub(delLiquidity).raw)).toBe(true)
+    expect(removed.liquidity.float).toBeCloseTo(swapped.liquidity.sub(delLiquidity).float, 15)
+  })
+
+  it('#applyLog replaces the removed liquidity with the burn of the manager', async function() {
+    create()
+    allocate(2)
+    const allocated = store.get(poolId) as Pool
+    const delLiquidity = parseWei(0.3)
+    const { delRisky, delStable } = allocated.liquidityQuote(delLiquidity, PoolSides.RMM_LP)
+    const remove = [AddressOne, poolId, delRisky.raw, delStable.raw]
+    store.applyLog(useLog(fixture.address, Engine.INTERFACE, 'Remove', remove, 3, 1), 300)
+
+    const burn = [AddressOne, AddressOne, AddressZero, poolId, delLiquidity.raw]
+    const log = useLog(AddressOne, EventParser.MANAGER_INTERFACE, 'TransferSingle', burn, 3, 2)
+    expect(store.applyLog(log, 300)).toBe(true)
+    const removed = store.get(poolId) as Pool
+    expect(removed.liquidity.raw.toString()).toBe(allocated.liquidity.sub(delLiquidity).raw.toString())
+    expect(removed.reserveRisky.raw.toString()).toBe(allocated.reserveRisky.sub(delRisky).raw.toString())
+
+    expect(store.applyLog(useLog(AddressOne, EventParser.MANAGER_INTERFACE, 'TransferSingle', burn, 3, 3), 300)).toBe(
+      false
+    )
+    store.revertTo(2)
+    expect((store.get(poolId) as Pool).toJSON()).toStrictEqual(allocated.toJSON())
+  })
+
+  it('#applyLog replays a swap without the checks of the engine', async function() {
+    create()
+    allocate(2)
+    const allocated = store.get(poolId) as Pool
+    const deltaIn = parseWei(0.01)
+    const deltaOut = allocated.amountOutX64(allocated.risky, deltaIn).output.add(1)
+    expect(() => allocated.applySwap(true, deltaIn, deltaOut)).toThrow('Invariant decreased')
+
+    const swap = [AddressOne, AddressOne, poolId, true, deltaIn.raw, deltaOut.raw]
+    store.applyLog(useLog(fixture.address, Engine.INTERFACE, 'Swap', swap, 3), fixture.maturity.raw + 1)
+    const swapped = store.get(poolId) as Pool
+    expect(swapped.reserveStable.raw.toString()).toBe(allocated.reserveStable.sub(deltaOut).raw.toString())
+    expect(swapped.lastTimestamp.raw).toBe(fixture.maturity.raw)
+  })
+
+  it('#applyLog ignores the events of other engines', async function() {
+    create()
+    const pool = store.get(poolId) as Pool
+    const other = '0x' + '22'.repeat(20)
+    const values = {
+      Create: [AddressOne, fixture.strike.raw, fixture.sigma.raw, fixture.maturity.raw, fixture.gamma.raw],
+      Allocate: [AddressOne, AddressOne, poolId, parseWei(0.1).raw, parseWei(1).raw],
+      Swap: [AddressOne, AddressOne, poolId, true, parseWei(0.01).raw, parseWei(0.1).raw],
+      Remove: [AddressOne, poolId, parseWei(0.1).raw, parseWei(1).raw]
+    }
+    Object.entries(values).forEach(([name, args], i) => {
+      const log = useLog(other, Engine.INTERFACE, name, args, 2 + i)
+      expect(store.applyLog(log, 100, creation)).toBe(false)
+    })
+    expect((store.get(poolId) as Pool).toJSON()).toStrictEqual(pool.toJSON())
+    expect(store.lastBlockNumber).toBe(1)
+  })
+
+  it('#revertTo restores the pools of a block', async function() {
+    create()
+    allocate(2)
+    const before = (store.get(poolId) as Pool).toJSON()
+    allocate(3)
+    allocate(4)
+
+    store.revertTo(2)
+    expect((store.get(poolId) as Pool).toJSON()).toStrictEqual(before)
+    expect(store.lastBlockNumber).toBe(2)
+    expect(() => allocate(2)).toThrow('Event is not after the last applied event')
+
+    store.revertTo(0)
+    expect(store.get(poolId)).toBeUndefined()
+    create(1)
+    expect(store.get(poolId)).toBeDefined()
+  })
+
+  it('#finalize prevents reverting finalized blocks', async function() {
+    create()
+    allocate(2)
+    store.finalize(2)
+    expect(() => store.revertTo(1)).toThrow('Cannot revert before the finalized block')
+  })
+
+  it('#snapshot is restored from json', async function() {
+    create()
+    allocate(2)
+    const snapshot = JSON.parse(JSON.stringify(store.snapshot()))
+
+    const restored = new PoolStore([fixture])
+    restored.restore(snapshot)
+    expect((restored.get(poolId) as Pool).toJSON()).toStrictEqual((store.get(poolId) as Pool).toJSON())
+    restored.revertTo(1)
+    store.revertTo(1)
+    expect((restored.get(poolId) as Pool).toJSON()).toStrictEqual((store.get(poolId) as Pool).toJSON())
+  })
+
+  it('#apply fails without creation arguments or pool', async function() {
+    const log = useLog(fixture.address, Engine.INTERFACE, 'Create', [
+      AddressOne,
+      fixture.strike.raw,
+      fixture.sigma.raw,
+      fixture.maturity.raw,
+      fixture.gamma.raw
+    ])
+    expect(() => store.applyLog(log, 1)).toThrow('Create event requires the pool creation arguments')
+    expect(() => allocate(2)).toThrow('Unknown pool')
+  })
+})
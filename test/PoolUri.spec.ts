@@ -0,0 +1,82 @@
+import { encode } from '@ethersproject/base64'
+import { toUtf8Bytes } from '@ethersproject/strings'
+import { AddressZero } from '@ethersproject/constants'
+
+import { PoolInterface } from '../src/entities/interfaces'
+import { decodeDataUri, parsePoolUri } from '../src/entities/poolUri'
+
+import { usePool } from './shared/fixture'
+
+describe('Pool URI', function() {
+  const svg = '<svg xmlns="http://www.w3.org/2000/svg"><text>10%</text></svg>'
+  let poolInterface: PoolInterface
+
+  beforeEach(async function() {
+    const pool = usePool()
+    poolInterface = {
+      name: 'Primitive RMM-01 LP',
+      image: `data:image/svg+xml;base64,${encode(toUtf8Bytes(svg))}`,
+      license: 'MIT',
+      creator: 'primitive.eth',
+      description: 'Covered call at 10%',
+      properties: {
+        chainId: '1',
+        factory: AddressZero,
+        riskyName: 'Risky',
+        riskyAddress: pool.risky.address,
+        riskySymbol: 'RISKY',
+        riskyDecimals: '18',
+        stableName: 'Stable',
+        stableAddress: pool.stable.address,
+        stableSymbol: 'STABLE',
+        stableDecimals: '18',
+        invariant: '0',
+        strike: pool.strike.raw.toString(),
+        sigma: pool.sigma.raw.toString(),
+        maturity: pool.maturity.raw.toString(),
+        lastTimestamp: pool.lastTimestamp.raw.toString(),
+        gamma: pool.gamma.raw.toString(),
+        reserveRisky: pool.reserveRisky.raw.toString(),
+        reserveStable: pool.reserveStable.raw.toString(),
+        liquidity: pool.liquidity.raw.toString()
+      }
+    }
+  })
+
+  it('#parsePoolUri base64', async function() {
+    const uri = `data:application/json;base64,${encode(toUtf8Bytes(JSON.stringify(poolInterface)))}`
+    const parsed = parsePoolUri(uri)
+    expect(parsed.poolInterface).toStrictEqual(poolInterface)
+    expect(parsed.image).toBe(svg)
+    expect(parsed.pool.poolId).toBe(usePool().poolId)
+    expect(parsed.pool.reserveRisky.raw.toString()).toBe(poolInterface.properties.reserveRisky)
+  })
+
+  it('#parsePoolUri utf-8', async function() {
+    const parsed = parsePoolUri(`data:application/json;utf8,${JSON.stringify(poolInterface)}`)
+    expect(parsed.poolInterface).toStrictEqual(poolInterface)
+    expect(parsePoolUri(JSON.stringify(poolInterface)).poolInterface).toStrictEqual(poolInterface)
+  })
+
+  it('#parsePoolUri fails with a missing property', async function() {
+    const { strike, ...properties } = poolInterface.properties
+    const uri = JSON.stringify({ ...poolInterface, properties })
+    expect(() => parsePoolUri(uri)).toThrow('Missing pool URI property: strike')
+  })
+
+  it('#parsePoolUri fails with an invalid property', async function() {
+    const uri = JSON.stringify({ ...poolInterface, properties: { ...poolInterface.properties, sigma: '1.5' } })
+    expect(() => parsePoolUri(uri)).toThrow('Pool URI property sigma is not an unsigned integer: 1.5')
+    const address = JSON.stringify({ ...poolInterface, properties: { ...poolInterface.properties, factory: '0x1' } })
+    expect(() => parsePoolUri(address)).toThrow('0x1 is not a valid address.')
+  })
+
+  it('#parsePoolUri fails with invalid json', async function() {
+    expect(() => parsePoolUri('data:application/json,{')).toThrow('Invalid JSON in pool URI')
+  })
+
+  it('#decodeDataUri percent-encoded', async function() {
+    expect(decodeDataUri('data:image/svg+xml,%3Csvg%3E').content).toBe('<svg>')
+    expect(() => decodeDataUri('application/json,{}')).toThrow('Not a data URI')
+  })
+})
@@ -0,0 +1,53 @@
+import { parseWei } from 'web3-units'
+
+import { Pool, PoolSides } from '../src/entities/pool'
+import { Position } from '../src/entities/position'
+
+import { usePool, usePoolWithDecimals } from './shared/fixture'
+
+describe('Position', function() {
+  let pool: Pool
+
+  beforeEach(async function() {
+    pool = usePool()
+  })
+
+  it('#underlying is the liquidity quote', async function() {
+    const liquidity = parseWei(0.25)
+    const position = new Position(pool, liquidity, parseWei(1), parseWei(2))
+    const { delRisky, delStable } = pool.liquidityQuote(liquidity, PoolSides.RMM_LP)
+    expect(position.underlying.delRisky.raw.eq(delRisky.raw)).toBe(true)
+    expect(position.underlying.delStable.raw.eq(delStable.raw)).toBe(true)
+    expect(position.amountRisky.raw.eq(delRisky.add(parseWei(1)).raw)).toBe(true)
+    expect(position.amountStable.raw.eq(delStable.add(parseWei(2)).raw)).toBe(true)
+    expect(position.shareOfPool).toBe(0.25)
+  })
+
+  it('#getValue sums the liquidity and margin', async function() {
+    const position = new Position(pool, pool.liquidity, parseWei(1))
+    const { values } = pool.getCurrentLiquidityValue(10, 1)
+    const expected = values[0].add(values[1]).add(parseWei(10))
+    expect(position.getValue(10).float).toBeCloseTo(expected.float, 12)
+    expect(position.shareOfPool).toBe(1)
+  })
+
+  it('#greeks adds the risky margin to delta', async function() {
+    const liquidity = parseWei(0.5)
+    const position = new Position(pool, liquidity, parseWei(1))
+    const greeks = pool.greeksOf(liquidity)
+    expect(position.greeks?.delta.raw.eq(greeks!.delta.add(parseWei(1)).raw)).toBe(true)
+    expect(position.greeks?.vega.raw.eq(greeks!.vega.raw)).toBe(true)
+  })
+
+  it('#isEmpty without liquidity and margin', async function() {
+    const position = new Position(pool, parseWei(0))
+    expect(position.isEmpty).toBe(true)
+    expect(position.underlying.delRisky.raw.isZero()).toBe(true)
+  })
+
+  it('fails with wrong decimals or too much liquidity', async function() {
+    const lowDecimalPool = usePoolWithDecimals(6)
+    expect(() => new Position(lowDecimalPool, parseWei(0.1), parseWei(1))).toThrow()
+    expect(() => new Position(pool, pool.liquidity.add(1))).toThrow('Liquidity exceeds pool liquidity')
+  })
+})
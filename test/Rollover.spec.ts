@@ -0,0 +1,76 @@
+import { parseWei, Time } from 'web3-units'
+
+import { Calibration } from '../src/entities/calibration'
+import { Pool } from '../src/entities/pool'
+import { Rollover } from '../src/entities/rollover'
+
+import { usePool, useWethPool } from './shared/fixture'
+
+describe('Rollover', function() {
+  let source: Pool, target: Pool, calibration: Calibration
+
+  beforeEach(async function() {
+    source = useWethPool()
+    calibration = new Calibration(
+      source.factory,
+      source.risky,
+      source.stable,
+      source.strike.raw.toString(),
+      source.sigma.raw.toString(),
+      (Time.YearInSeconds * 2).toString(),
+      source.gamma.raw.toString()
+    )
+    target = Pool.fromReferencePrice(
+      12,
+      source.factory,
+      source.risky,
+      source.stable,
+      {
+        strike: calibration.strike.raw.toString(),
+        sigma: calibration.sigma.raw.toString(),
+        maturity: calibration.maturity.raw.toString(),
+        gamma: calibration.gamma.raw.toString(),
+        lastTimestamp: source.lastTimestamp.raw.toString()
+      },
+      1
+    )
+  })
+
+  it('#toPool rebalances and allocates at the reserve ratio of the target', async function() {
+    const rollover = Rollover.toPool(source, parseWei(0.1), target)
+    expect(rollover.createTarget).toBe(false)
+    expect(rollover.trade?.pool.poolId).toBe(target.poolId)
+    expect(rollover.liquidity.gt(0)).toBe(true)
+    expect(rollover.leftoverRisky.float + rollover.leftoverStable.float).toBeLessThan(1e-12)
+    expect(rollover.poolAfter.liquidity.raw.eq(target.liquidity.add(rollover.liquidity).raw)).toBe(true)
+  })
+
+  it('#toPool without rebalancing allocates the removed tokens', async function() {
+    const rollover = Rollover.toPool(source, parseWei(0.1), target, false)
+    const { delLiquidity } = target.allocationQuote(rollover.delRisky, rollover.delStable)
+    expect(rollover.trade).toBeUndefined()
+    expect(rollover.liquidity.raw.eq(delLiquidity.raw)).toBe(true)
+    expect(rollover.leftoverRisky.gt(0) || rollover.leftoverStable.gt(0)).toBe(true)
+  })
+
+  it('#toCalibration rebalances in the source pool and creates the target', async function() {
+    const rollover = Rollover.toCalibration(source, parseWei(0.1), calibration, 12)
+    expect(rollover.createTarget).toBe(true)
+    expect(rollover.trade?.pool.liquidity.raw.eq(source.liquidity.sub(parseWei(0.1)).raw)).toBe(true)
+    expect(rollover.poolAfter.poolId).toBe(calibration.poolId)
+    expect(rollover.poolAfter.liquidity.raw.eq(rollover.liquidity.raw)).toBe(true)
+    expect(rollover.leftoverRisky.float + rollover.leftoverStable.float).toBeLessThan(1e-9)
+  })
+
+  it('#toCalibration does not rebalance from an expired pool by default', async function() {
+    source.lastTimestamp = source.maturity
+    const rollover = Rollover.toCalibration(source, parseWei(0.1), calibration, 12)
+    expect(rollover.trade).toBeUndefined()
+    expect(rollover.liquidity.gt(0)).toBe(true)
+  })
+
+  it('fails if the target is not in the same Engine or is the source', async function() {
+    expect(() => Rollover.toPool(source, parseWei(0.1), usePool())).toThrow('Engine mismatch')
+    expect(() => Rollover.toPool(source, parseWei(0.1), source)).toThrow('Target is the source pool')
+  })
+})
@@ -0,0 +1,89 @@
+import { Token } from '@uniswap/sdk-core'
+import { parsePercentage, parseWei, Time, toBN } from 'web3-units'
+
+import { Pool } from '../src/entities/pool'
+import { Router } from '../src/router'
+import { SwapManager } from '../src/swapManager'
+
+import { usePool } from './shared/fixture'
+import { AddressOne } from './shared/constants'
+
+function decode(frag: string, data: any) {
+  return SwapManager.INTERFACE.decodeFunctionData(frag, data)
+}
+
+describe('Router', function() {
+  let pool: Pool
+  let pools: Pool[]
+
+  beforeEach(async function() {
+    pool = usePool()
+    const calibration = (sigma: string, gamma: string) => ({
+      strike: pool.strike.raw.toString(),
+      sigma,
+      maturity: pool.maturity.raw.toString(),
+      gamma,
+      lastTimestamp: pool.lastTimestamp.raw.toString()
+    })
+    const lowFee = Pool.fromReferencePrice(10, pool.factory, pool.risky, pool.stable, calibration('1000', '9990'))
+    const highVol = Pool.fromReferencePrice(10, pool.factory, pool.risky, pool.stable, calibration('5000', '9900'))
+    pools = [pool, lowFee, highVol]
+  })
+
+  it('#bestTradeExactIn', async function() {
+    const amountIn = parseWei(0.01, pool.risky.decimals)
+    const best = Router.bestTradeExactIn(pools, pool.risky, amountIn)
+    pools.forEach(p => expect(best.outputAmount.gte(p.amountOutX64(pool.risky, amountIn).output)).toBe(true))
+  })
+
+  it('#bestTradeExactOut', async function() {
+    const amountOut = parseWei(0.01, pool.risky.decimals)
+    const best = Router.bestTradeExactOut(pools, pool.risky, amountOut)
+    pools.forEach(p => expect(best.inputAmount.lte(p.amountInX64(pool.risky, amountOut).input)).toBe(true))
+  })
+
+  it('#splitTradeExactIn', async function() {
+    const amountIn = parseWei(0.2, pool.risky.decimals)
+    const trades = Router.splitTradeExactIn(pools, pool.risky, amountIn, 20)
+    const best = Router.bestTradeExactIn(pools, pool.risky, amountIn)
+
+    const totalIn = trades.reduce((sum, trade) => sum.add(trade.inputAmount), parseWei(0, pool.risky.decimals))
+    const totalOut = trades.reduce((sum, trade) => sum.add(trade.outputAmount), parseWei(0, pool.stable.decimals))
+    expect(totalIn.raw.eq(amountIn.raw)).toBe(true)
+    expect(totalOut.gte(best.outputAmount)).toBe(true)
+  })
+
+  it('#splitTradeExactIn swapCallParameters', async function() {
+    const amountIn = parseWei(0.2, pool.risky.decimals)
+    const trades = Router.splitTradeExactIn(pools, pool.risky, amountIn, 20)
+    const slippageTolerance = parsePercentage(0.01)
+    const options = { recipient: AddressOne, deadline: toBN(Time.YearInSeconds), slippageTolerance }
+    const { calldata, value } = SwapManager.swapCallParameters(trades, options)
+
+    const datas = trades.length === 1 ? [calldata] : decode('multicall', calldata)[0]
+    expect(datas.length).toBe(trades.length)
+    trades.forEach((trade, i) => {
+      const decoded = decode('swap', datas[i])
+      expect(decoded[0].poolId).toBe(trade.pool.poolId)
+      expect(decoded[0].deltaIn).toStrictEqual(trade.inputAmount.raw)
+      expect(decoded[0].deltaOut).toStrictEqual(SwapManager.minimumAmountOut(slippageTolerance, trade.outputAmount).raw)
+    })
+    expect(value).toBe('0x00')
+  })
+
+  it('fails if pools do not share an engine', async function() {
+    const token = new Token(1, AddressOne, 18)
+    const other = Pool.fromReferencePrice(10, pool.factory, token, pool.stable, {
+      strike: pool.strike.raw.toString(),
+      sigma: pool.sigma.raw.toString(),
+      maturity: pool.maturity.raw.toString(),
+      gamma: pool.gamma.raw.toString(),
+      lastTimestamp: pool.lastTimestamp.raw.toString()
+    })
+    expect(() => Router.bestTradeExactIn([pool, other], pool.risky, parseWei(0.01))).toThrow()
+  })
+
+  it('fails if no pool can be swapped in', async function() {
+    expect(() => Router.bestTradeExactOut(pools, pool.risky, pool.reserveRisky)).toThrow()
+  })
+})
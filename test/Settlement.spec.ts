@@ -0,0 +1,47 @@
+import { Time } from 'web3-units'
+
+import { Engine } from '../src/entities/engine'
+import { Pool } from '../src/entities/pool'
+import { Settlement } from '../src/entities/settlement'
+
+import { usePool } from './shared/fixture'
+
+describe('Settlement', function() {
+  let pool: Pool
+
+  beforeEach(async function() {
+    pool = usePool()
+  })
+
+  it('#isExpired', async function() {
+    expect(Settlement.isExpired(pool, pool.maturity)).toBe(false)
+    expect(Settlement.isExpired(pool, pool.maturity.add(1))).toBe(true)
+  })
+
+  it('#isBufferOpen', async function() {
+    expect(Settlement.isBufferOpen(pool, pool.maturity)).toBe(false)
+    expect(Settlement.isBufferOpen(pool, pool.maturity.add(1))).toBe(true)
+    expect(Settlement.isBufferOpen(pool, pool.maturity.add(Engine.BUFFER))).toBe(true)
+    expect(Settlement.isBufferOpen(pool, pool.maturity.add(Engine.BUFFER + 1))).toBe(false)
+  })
+
+  it('#isSwapOpen', async function() {
+    expect(Settlement.isSwapOpen(pool, new Time(1))).toBe(true)
+    expect(Settlement.isSwapOpen(pool, pool.maturity.add(Engine.BUFFER + 1))).toBe(false)
+  })
+
+  it('#getTerminalReserves', async function() {
+    const exercised = Settlement.getTerminalReserves(pool, pool.strike.float * 2)
+    expect(exercised.riskyPerLiquidity.raw.isZero()).toBe(true)
+    expect(exercised.stablePerLiquidity.raw.eq(pool.strike.raw)).toBe(true)
+
+    const unexercised = Settlement.getTerminalReserves(pool, pool.strike.float / 2)
+    expect(unexercised.riskyPerLiquidity.float).toBe(1)
+    expect(unexercised.stablePerLiquidity.raw.isZero()).toBe(true)
+  })
+
+  it('#getPayoffPerLiquidity', async function() {
+    expect(Settlement.getPayoffPerLiquidity(pool, pool.strike.float * 2).float).toBe(pool.strike.float)
+    expect(Settlement.getPayoffPerLiquidity(pool, pool.strike.float / 2).float).toBe(pool.strike.float / 2)
+  })
+})
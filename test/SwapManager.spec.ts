@@ -1,10 +1,16 @@
 import { AddressZero } from '@ethersproject/constants'
-import { parsePercentage, parseWei, Percentage, Time, toBN } from 'web3-units'
+import { Ether } from '@uniswap/sdk-core'
+import { parsePercentage, parseWei, Percentage, Time, toBN, Wei } from 'web3-units'
 
 import { Pool } from '../src/entities/pool'
 import { SwapManager } from '../src/swapManager'
+import { Trade } from '../src/entities/trade'
+import { Zap } from '../src/entities/zap'
+import { Exit } from '../src/entities/exit'
+import { Rollover } from '../src/entities/rollover'
+import { Calibration } from '../src/entities/calibration'
 
-import { usePool } from './shared/fixture'
+import { usePool, useWethPool } from './shared/fixture'
 import { AddressOne } from './shared/constants'
 import { ContractFactory } from 'ethers'
 
@@ -63,6 +69,60 @@ describe('Swap Manager', function() {
       expect(value).toBe('0x00')
     })
 
+    it('successful with an exact input trade', async function() {
+      const trade = Trade.exactIn(pool, pool.risky, parseWei(0.01, pool.risky.decimals))
+      const recipient = AddressOne
+      const deadline = toBN(Time.YearInSeconds)
+      const slippageTolerance = parsePercentage(3 / 100)
+      const { calldata, value } = SwapManager.swapCallParameters(trade, { recipient, deadline, slippageTolerance })
+
+      const minimumOut = SwapManager.minimumAmountOut(slippageTolerance, trade.outputAmount)
+      const decoded = decode('swap', calldata)
+      expect(decoded[0].riskyForStable).toBe(true)
+      expect(decoded[0].deltaIn).toStrictEqual(trade.inputAmount.raw)
+      expect(decoded[0].deltaOut).toStrictEqual(minimumOut.raw)
+      expect(decoded[0].fromMargin).toBe(false)
+      expect(decoded[0].toMargin).toBe(false)
+      expect(value).toBe('0x00')
+    })
+
+    it('successful with an exact output trade', async function() {
+      const trade = Trade.exactOut(pool, pool.risky, parseWei(0.01, pool.risky.decimals))
+      const recipient = AddressOne
+      const deadline = toBN(Time.YearInSeconds)
+      const slippageTolerance = parsePercentage(3 / 100)
+      const { calldata } = SwapManager.swapCallParameters(trade, {
+        recipient,
+        deadline,
+        slippageTolerance,
+        toMargin: true
+      })
+
+      const decoded = decode('swap', calldata)
+      expect(decoded[0].riskyForStable).toBe(false)
+      expect(decoded[0].deltaIn).toStrictEqual(trade.inputAmount.raw)
+      expect(decoded[0].deltaOut).toStrictEqual(trade.outputAmount.raw)
+      expect(decoded[0].toMargin).toBe(true)
+    })
+
+    it('successful with a swap to price', async function() {
+      const targetPrice = (pool.reportedPriceOfRisky as Wei).mul(95).div(100)
+      const recipient = AddressOne
+      const deadline = toBN(Time.YearInSeconds)
+      const slippageTolerance = parsePercentage(3 / 100)
+      const { calldata } = SwapManager.swapToPriceCallParameters(pool, targetPrice, {
+        recipient,
+        deadline,
+        slippageTolerance
+      })
+
+      const { input, output } = pool.swapToPrice(targetPrice)
+      const decoded = decode('swap', calldata)
+      expect(decoded[0].riskyForStable).toBe(true)
+      expect(decoded[0].deltaIn).toStrictEqual(input.raw)
+      expect(decoded[0].deltaOut).toStrictEqual(SwapManager.minimumAmountOut(slippageTolerance, output).raw)
+    })
+
     it('fails when recipient is address zero', async function() {
       const riskyForStable = true
       const deltaIn = parseWei(0.3, pool.risky.decimals)
@@ -128,6 +188,328 @@ describe('Swap Manager', function() {
       }
       expect(() => SwapManager.swapCallParameters(pool, options)).toThrow()
     })
+
+    it('sends the input as value with useNative', async function() {
+      const wethPool = useWethPool()
+      const deltaIn = parseWei(0.1, wethPool.risky.decimals)
+      const deltaOut = wethPool.amountOutX64(wethPool.risky, deltaIn).output
+      const options = {
+        riskyForStable: true,
+        deltaIn,
+        deltaOut,
+        fromMargin: false,
+        toMargin: false,
+        recipient: AddressOne,
+        deadline: toBN(Time.YearInSeconds),
+        slippageTolerance: parsePercentage(0.01),
+        useNative: Ether.onChain(1)
+      }
+      const { calldata, value } = SwapManager.swapCallParameters(wethPool, options)
+      expect(value).toBe(deltaIn.raw.toHexString())
+      expect(decode('swap', calldata)[0].deltaIn.eq(deltaIn.raw)).toBe(true)
+
+      const trade = Trade.exactIn(wethPool, wethPool.risky, deltaIn)
+      expect(SwapManager.swapCallParameters([trade, trade], options).value).toBe(deltaIn.mul(2).raw.toHexString())
+      expect(SwapManager.swapCallParameters(wethPool, { ...options, riskyForStable: false }).value).toBe('0x00')
+    })
+
+    it('fails with useNative if the pool does not involve the wrapped token or pays from margin', async function() {
+      const wethPool = useWethPool()
+      const deltaIn = parseWei(0.1, pool.risky.decimals)
+      const options = {
+        riskyForStable: true,
+        deltaIn,
+        deltaOut: parseWei(0.1, pool.stable.decimals),
+        fromMargin: false,
+        toMargin: false,
+        recipient: AddressOne,
+        deadline: toBN(Time.YearInSeconds),
+        slippageTolerance: parsePercentage(0.01),
+        useNative: Ether.onChain(1)
+      }
+      expect(() => SwapManager.swapCallParameters(pool, options)).toThrow('No Weth')
+      expect(() => SwapManager.swapCallParameters(wethPool, { ...options, fromMargin: true })).toThrow(
+        'Cannot pay native input from margin'
+      )
+    })
+  })
+
+  describe('#exactOutputCallParameters', function() {
+    it('deposits the maximum in, swaps the quoted input from margin and withdraws the slack', async function() {
+      const trade = Trade.exactOut(pool, pool.risky, parseWei(0.1, pool.risky.decimals))
+      const slippageTolerance = parsePercentage(0.01)
+      const options = {
+        sender: AddressOne,
+        recipient: AddressOne,
+        deadline: toBN(Time.YearInSeconds),
+        slippageTolerance
+      }
+      const { calldata, value } = SwapManager.exactOutputCallParameters(trade, options)
+      const [depositData, swapData, withdrawData] = decode('multicall', calldata)[0]
+
+      const amountInMaximum = SwapManager.maximumAmountIn(slippageTolerance, trade.inputAmount)
+      const deposit = decode('deposit', depositData)
+      expect(deposit.recipient).toBe(AddressOne)
+      expect(deposit.delStable.eq(amountInMaximum.raw)).toBe(true)
+
+      const [swap] = decode('swap', swapData)
+      expect(swap.deltaIn.eq(trade.inputAmount.raw)).toBe(true)
+      expect(swap.deltaIn.lt(amountInMaximum.raw)).toBe(true)
+      expect(swap.deltaOut.eq(trade.outputAmount.raw)).toBe(true)
+      expect(swap.fromMargin).toBe(true)
+
+      const withdraw = decode('withdraw', withdrawData)
+      expect(withdraw.recipient).toBe(AddressOne)
+      expect(withdraw.delStable.eq(amountInMaximum.sub(trade.inputAmount).raw)).toBe(true)
+      expect(value).toBe('0x00')
+    })
+
+    it('sends the maximum in as value, swaps the quoted input and refunds the rest with useNative', async function() {
+      const wethPool = useWethPool()
+      const trade = Trade.exactOut(wethPool, wethPool.stable, parseWei(0.1, wethPool.stable.decimals))
+      const slippageTolerance = parsePercentage(0.01)
+      const options = {
+        sender: AddressOne,
+        recipient: AddressOne,
+        deadline: toBN(Time.YearInSeconds),
+        slippageTolerance,
+        useNative: Ether.onChain(1)
+      }
+      const { calldata, value } = SwapManager.exactOutputCallParameters(trade, options)
+      const [swapData, refundData] = decode('multicall', calldata)[0]
+      const [swap] = decode('swap', swapData)
+      expect(value).toBe(SwapManager.maximumAmountIn(slippageTolerance, trade.inputAmount).raw.toHexString())
+      expect(swap.deltaIn.eq(trade.inputAmount.raw)).toBe(true)
+      expect(swap.fromMargin).toBe(false)
+      expect(refundData).toBe(SwapManager.INTERFACE.encodeFunctionData('refundETH'))
+    })
+
+    it('fails with an exact input trade', async function() {
+      const trade = Trade.exactIn(pool, pool.risky, parseWei(0.1, pool.risky.decimals))
+      const options = {
+        sender: AddressOne,
+        recipient: AddressOne,
+        deadline: toBN(Time.YearInSeconds),
+        slippageTolerance: parsePercentage(0.01)
+      }
+      expect(() => SwapManager.exactOutputCallParameters(trade, options)).toThrow('Not an exact output trade')
+    })
+
+    it('fails when sender is address zero', async function() {
+      const trade = Trade.exactOut(pool, pool.risky, parseWei(0.1, pool.risky.decimals))
+      const options = {
+        sender: AddressZero,
+        recipient: AddressOne,
+        deadline: toBN(Time.YearInSeconds),
+        slippageTolerance: parsePercentage(0.01)
+      }
+      expect(() => SwapManager.exactOutputCallParameters(trade, options)).toThrow('Zero Address Sender')
+    })
+  })
+
+  describe('#zapCallParameters', function() {
+    it('swaps to margin, deposits and allocates from margin', async function() {
+      const zap = Zap.exactIn(pool, pool.risky, parseWei(0.1, pool.risky.decimals))
+      const slippageTolerance = parsePercentage(0.01)
+      const options = {
+        sender: AddressOne,
+        recipient: AddressOne,
+        deadline: toBN(Time.YearInSeconds),
+        slippageTolerance
+      }
+      const { calldata, value } = SwapManager.zapCallParameters(zap, options)
+      const [swapData, depositData, allocateData] = decode('multicall', calldata)[0]
+
+      const deltaOut = SwapManager.minimumAmountOut(slippageTolerance, zap.trade.outputAmount)
+      const { delRisky, delStable, delLiquidity } = zap.getAllocation(deltaOut)
+      const [swap] = decode('swap', swapData)
+      expect(swap.recipient).toBe(AddressOne)
+      expect(swap.deltaIn.eq(zap.trade.inputAmount.raw)).toBe(true)
+      expect(swap.deltaOut.eq(deltaOut.raw)).toBe(true)
+      expect([swap.fromMargin, swap.toMargin]).toStrictEqual([false, true])
+
+      const deposit = decode('deposit', depositData)
+      expect(deposit.delRisky.eq(delRisky.raw)).toBe(true)
+      expect(deposit.delStable.isZero()).toBe(true)
+
+      const allocate = decode('allocate', allocateData)
+      expect(allocate.delRisky.eq(delRisky.raw)).toBe(true)
+      expect(allocate.delStable.eq(delStable.raw)).toBe(true)
+      expect(allocate.fromMargin).toBe(true)
+      expect(allocate.minLiquidityOut.eq(delLiquidity.mul(99).div(100).raw)).toBe(true)
+      expect(value).toBe('0x00')
+    })
+
+    it('fails when sender is address zero', async function() {
+      const zap = Zap.exactIn(pool, pool.risky, parseWei(0.1, pool.risky.decimals))
+      const options = {
+        sender: AddressZero,
+        recipient: AddressOne,
+        deadline: toBN(Time.YearInSeconds),
+        slippageTolerance: parsePercentage(0.01)
+      }
+      expect(() => SwapManager.zapCallParameters(zap, options)).toThrow('Zero Address Sender')
+    })
+  })
+
+  describe('#exitCallParameters', function() {
+    it('removes to margin, swaps from margin and withdraws the combined minimum', async function() {
+      const wethPool = useWethPool()
+      const exit = Exit.exactIn(wethPool, parseWei(0.1), wethPool.stable)
+      const slippageTolerance = parsePercentage(0.01)
+      const options = {
+        sender: AddressOne,
+        recipient: AddressOne,
+        deadline: toBN(Time.YearInSeconds),
+        slippageTolerance
+      }
+      const { calldata, value } = SwapManager.exitCallParameters(exit, options)
+      const [removeData, swapData, withdrawData] = decode('multicall', calldata)[0]
+
+      const remove = decode('remove', removeData)
+      const minRisky = exit.delRisky.mul(99).div(100)
+      const minStable = exit.delStable.mul(99).div(100)
+      expect(remove.delLiquidity.eq(exit.delLiquidity.raw)).toBe(true)
+      expect(remove.minRiskyOut.eq(minRisky.raw)).toBe(true)
+
+      const [swap] = decode('swap', swapData)
+      const deltaOut = SwapManager.minimumAmountOut(
+        slippageTolerance,
+        exit.trade.pool.amountOutX64(wethPool.risky, minRisky).output
+      )
+      expect(swap.deltaIn.eq(minRisky.raw)).toBe(true)
+      expect(swap.deltaOut.eq(deltaOut.raw)).toBe(true)
+      expect([swap.fromMargin, swap.toMargin]).toStrictEqual([true, true])
+
+      const withdraw = decode('withdraw', withdrawData)
+      expect(withdraw.delRisky.isZero()).toBe(true)
+      expect(withdraw.delStable.eq(minStable.add(deltaOut).raw)).toBe(true)
+      expect(value).toBe('0x00')
+    })
+
+    it('unwraps the output with useNative', async function() {
+      const wethPool = useWethPool()
+      const exit = Exit.exactIn(wethPool, parseWei(0.1), wethPool.risky)
+      const options = {
+        sender: AddressOne,
+        recipient: AddressOne,
+        deadline: toBN(Time.YearInSeconds),
+        slippageTolerance: parsePercentage(0.01),
+        useNative: Ether.onChain(1)
+      }
+      const { calldata } = SwapManager.exitCallParameters(exit, options)
+      const calldatas = decode('multicall', calldata)[0]
+      expect(calldatas.length).toBe(5)
+      expect(decode('unwrap', calldatas[3])[1]).toBe(AddressOne)
+      expect(() =>
+        SwapManager.exitCallParameters(Exit.exactIn(wethPool, parseWei(0.1), wethPool.stable), options)
+      ).toThrow('Output is not the wrapped native')
+    })
+  })
+
+  describe('#rolloverCallParameters', function() {
+    let source: Pool, calibration: Calibration
+
+    beforeEach(async function() {
+      source = useWethPool()
+      calibration = new Calibration(
+        source.factory,
+        source.risky,
+        source.stable,
+        source.strike.raw.toString(),
+        source.sigma.raw.toString(),
+        (Time.YearInSeconds * 2).toString(),
+        source.gamma.raw.toString()
+      )
+    })
+
+    it('removes, swaps and allocates from margin', async function() {
+      const target = Rollover.toCalibration(source, parseWei(0.5), calibration, 12).poolAfter
+      const rollover = Rollover.toPool(source, parseWei(0.1), target)
+      const slippageTolerance = parsePercentage(0.01)
+      const options = {
+        sender: AddressOne,
+        recipient: AddressOne,
+        deadline: toBN(Time.YearInSeconds),
+        slippageTolerance
+      }
+      const { calldata } = SwapManager.rolloverCallParameters(rollover, options)
+      const [removeData, swapData, allocateData] = decode('multicall', calldata)[0]
+
+      const minRisky = rollover.delRisky.mul(9900).div(10000)
+      const minStable = rollover.delStable.mul(9900).div(10000)
+      const remove = decode('remove', removeData)
+      expect(remove.engine).toBe(source.address)
+      expect(remove.minRiskyOut.eq(minRisky.raw)).toBe(true)
+      expect(remove.minStableOut.eq(minStable.raw)).toBe(true)
+
+      const trade = rollover.trade!
+      const deltaIn = trade.inputAmount.mul(9900).div(10000)
+      const deltaOut = SwapManager.minimumAmountOut(
+        slippageTolerance,
+        trade.pool.amountOutX64(trade.inputToken, deltaIn).output
+      )
+      const [swap] = decode('swap', swapData)
+      expect(swap.poolId).toBe(target.poolId)
+      expect(swap.deltaIn.eq(deltaIn.raw)).toBe(true)
+      expect(swap.deltaOut.eq(deltaOut.raw)).toBe(true)
+      expect([swap.fromMargin, swap.toMargin]).toStrictEqual([true, true])
+
+      const allocate = decode('allocate', allocateData)
+      const { delRisky, delStable } = rollover.getAllocation(deltaOut, deltaIn, {
+        delRisky: minRisky,
+        delStable: minStable
+      })
+      expect(allocate.poolId).toBe(target.poolId)
+      expect(allocate.delRisky.eq(delRisky.raw)).toBe(true)
+      expect(allocate.delStable.eq(delStable.raw)).toBe(true)
+      expect(allocate.fromMargin).toBe(true)
+    })
+
+    it('withdraws and creates the target pool', async function() {
+      const rollover = Rollover.toCalibration(source, parseWei(0.1), calibration, 12)
+      const options = {
+        sender: AddressOne,
+        recipient: AddressOne,
+        deadline: toBN(Time.YearInSeconds),
+        slippageTolerance: parsePercentage(0.01)
+      }
+      const { calldata } = SwapManager.rolloverCallParameters(rollover, options)
+      const calldatas = decode('multicall', calldata)[0]
+      expect(calldatas.length).toBe(4)
+
+      const create = decode('create', calldatas[3])
+      expect(create.riskyPerLp.eq(rollover.riskyPerLp.raw)).toBe(true)
+      const withdraw = decode('withdraw', calldatas[2])
+      const trade = rollover.trade!
+      const deltaIn = trade.inputAmount.mul(9900).div(10000)
+      const deltaOut = SwapManager.minimumAmountOut(
+        options.slippageTolerance,
+        trade.pool.amountOutX64(trade.inputToken, deltaIn).output
+      )
+      const { delRisky, delLiquidity } = rollover.getAllocation(deltaOut, deltaIn, {
+        delRisky: rollover.delRisky.mul(9900).div(10000),
+        delStable: rollover.delStable.mul(9900).div(10000)
+      })
+      expect(withdraw.delRisky.eq(delRisky.raw)).toBe(true)
+      expect(create.delLiquidity.eq(delLiquidity.raw)).toBe(true)
+    })
+
+    it('creates the target without a swap from an expired pool', async function() {
+      source.lastTimestamp = source.maturity
+      const rollover = Rollover.toCalibration(source, parseWei(0.1), calibration, 12)
+      const options = {
+        sender: AddressOne,
+        recipient: AddressOne,
+        deadline: toBN(Time.YearInSeconds),
+        slippageTolerance: parsePercentage(0.01)
+      }
+      const { calldata } = SwapManager.rolloverCallParameters(rollover, options)
+      const calldatas = decode('multicall', calldata)[0]
+      expect(rollover.trade).toBeUndefined()
+      expect(calldatas.length).toBe(3)
+      expect(decode('create', calldatas[2]).delLiquidity.gt(0)).toBe(true)
+    })
   })
 
   describe('#minimumAmountOut', function() {
@@ -146,4 +528,21 @@ describe('Swap Manager', function() {
       expect(() => SwapManager.minimumAmountOut(slippageTolerance, amountOut).raw).toThrow()
     })
   })
+
+  describe('#maximumAmountIn', function() {
+    it('successful', async function() {
+      const slippageTolerance = parsePercentage(3 / 100)
+      const amountIn = parseWei(1, 18)
+      const expected = amountIn
+        .mul(Math.pow(10, Percentage.Mantissa) + +slippageTolerance.raw)
+        .div(Math.pow(10, Percentage.Mantissa))
+      expect(SwapManager.maximumAmountIn(slippageTolerance, amountIn).raw).toStrictEqual(expected.raw)
+    })
+
+    it('fails if slippage tolerance is less than 0', async function() {
+      const slippageTolerance = parsePercentage(-0.1)
+      const amountIn = parseWei(1, 18)
+      expect(() => SwapManager.maximumAmountIn(slippageTolerance, amountIn)).toThrow()
+    })
+  })
 })
@@ -0,0 +1,218 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import { parsePercentage, parseWei, Time, Wei } from 'web3-units'
+
+import { SwapsX64 } from '../src/entities/swapsX64'
+import { ABDKMath64x64 } from '../src/entities/abdkMath64x64'
+import { CumulativeNormalDistribution } from '../src/entities/cumulativeNormalDistribution'
+import { ReplicationMath } from '../src/entities/replicationMath'
+
+describe('SwapsX64', function() {
+  const strike = parseWei(10, 18)
+  const sigma = parsePercentage(1)
+  const gamma = parsePercentage(0.9985)
+  const tau = new Time(31556952)
+  const reserveRisky = parseWei('0.308537538726', 18)
+  const reserveStable = parseWei('3.085467038779', 18)
+  const liquidity = parseWei(1, 18)
+
+  function curve(decimalsStable = 18, timeRemaining = tau) {
+    const stable = new Wei(reserveStable.raw.div(BigNumber.from(10).pow(18 - decimalsStable)), decimalsStable)
+    const strikePrice = parseWei(strike.float, decimalsStable)
+    return [18, decimalsStable, reserveRisky, stable, liquidity, strikePrice, sigma, gamma, timeRemaining] as const
+  }
+
+  function isValid(riskyForStable: boolean, deltaIn: Wei, deltaOut: Wei, args = curve()): boolean {
+    const k = SwapsX64.invariantOf(args[0], args[1], args[2], args[3], args[4], args[5], args[6], args[8])
+    const after = SwapsX64.getInvariantAfterSwap(riskyForStable, deltaIn, deltaOut, ...args)
+    return after.raw.gte(k.raw)
+  }
+
+  it('#getCDF', async function() {
+    const half = CumulativeNormalDistribution.getCDF(BigNumber.from(0))
+    const error = ABDKMath64x64.abs(ABDKMath64x64.sub(half, CumulativeNormalDistribution.HALF_INT))
+    expect(error.lt(ABDKMath64x64.divu(1, 100))).toBe(true)
+  })
+
+  it('#getInverseCDF', async function() {
+    const half = CumulativeNormalDistribution.getInverseCDF(CumulativeNormalDistribution.HALF_INT)
+    expect(half.isZero()).toBe(true)
+    expect(() => CumulativeNormalDistribution.getInverseCDF(CumulativeNormalDistribution.ONE_INT)).toThrow()
+  })
+
+  it('#exactRiskyInput', async function() {
+    const amountIn = parseWei(0.01, 18)
+    const { output } = SwapsX64.exactRiskyInput(amountIn, ...curve())
+    expect(output.gt(0)).toBe(true)
+    expect(isValid(true, amountIn, output)).toBe(true)
+    expect(isValid(true, amountIn, output.add(1))).toBe(false)
+  })
+
+  it('#exactStableInput', async function() {
+    const amountIn = parseWei(0.1, 18)
+    const { output } = SwapsX64.exactStableInput(amountIn, ...curve())
+    expect(output.gt(0)).toBe(true)
+    expect(isValid(false, amountIn, output)).toBe(true)
+    expect(isValid(false, amountIn, output.add(1))).toBe(false)
+  })
+
+  it('#exactRiskyOutput', async function() {
+    const amountOut = parseWei(0.01, 18)
+    const { input } = SwapsX64.exactRiskyOutput(amountOut, ...curve())
+    expect(input.gt(0)).toBe(true)
+    expect(isValid(false, input, amountOut)).toBe(true)
+    expect(isValid(false, input.sub(1), amountOut)).toBe(false)
+  })
+
+  it('#exactStableOutput', async function() {
+    const amountOut = parseWei(0.1, 18)
+    const { input } = SwapsX64.exactStableOutput(amountOut, ...curve())
+    expect(input.gt(0)).toBe(true)
+    expect(isValid(true, input, amountOut)).toBe(true)
+    expect(isValid(true, input.sub(1), amountOut)).toBe(false)
+  })
+
+  it('#exactRiskyInput with 6 decimal stable', async function() {
+    const amountIn = parseWei(0.01, 18)
+    const { output } = SwapsX64.exactRiskyInput(amountIn, ...curve(6))
+    expect(output.decimals).toBe(6)
+    expect(isValid(true, amountIn, output, curve(6))).toBe(true)
+    expect(isValid(true, amountIn, output.add(1), curve(6))).toBe(false)
+  })
+
+  it('#exactStableOutput with 6 decimal stable', async function() {
+    const amountOut = parseWei(0.1, 6)
+    const { input } = SwapsX64.exactStableOutput(amountOut, ...curve(6))
+    expect(isValid(true, input, amountOut, curve(6))).toBe(true)
+    expect(isValid(true, input.sub(1), amountOut, curve(6))).toBe(false)
+  })
+
+  it('#exactRiskyOutput fails if amount out exceeds reserves', async function() {
+    expect(() => SwapsX64.exactRiskyOutput(reserveRisky, ...curve())).toThrow()
+  })
+
+  it('#exactRiskyInput fails if amount in is negative', async function() {
+    expect(() => SwapsX64.exactRiskyInput(parseWei(-1, 18), ...curve())).toThrow()
+  })
+
+  it('#exactRiskyInput at expiry', async function() {
+    const args = curve(18, new Time(0))
+    const amountIn = parseWei(0.01, 18)
+    const { output } = SwapsX64.exactRiskyInput(amountIn, ...args)
+    expect(isValid(true, amountIn, output, args)).toBe(true)
+  })
+
+  // raw outputs of rmm-core's TestReplicationMath and TestCumulativeNormalDistribution contracts, solc 0.8.6
+  describe('engine golden vectors', function() {
+    // curves per liquidity, with the outputs as signed 64.64 fixed point numbers
+    const curves = [
+      {
+        scaleFactors: [1, 1],
+        args: ['308537538726000000', '3085467038779000000', '10000000000000000000', 10000, 31556952],
+        invariant: '421866807577096843',
+        stable: '56494954004645580687',
+        risky: '5649327679566547245'
+      },
+      {
+        scaleFactors: [1, 1],
+        args: ['500000000000000000', '1000000000000000000', '2000000000000000000', 5000, 15778476],
+        invariant: '5195848104915728657',
+        stable: '13250895968793822959',
+        risky: '6625447984396911470'
+      },
+      {
+        scaleFactors: [1, 1e12],
+        args: ['250000000000000000', '1500000', '3000000', 8000, 2629746],
+        invariant: '-9613594460990027662',
+        stable: '37283710571554355086',
+        risky: '7483524824341645587'
+      },
+      {
+        scaleFactors: [1, 1e12],
+        args: ['900000000000000000', '100000', '1000000', 15000, 86400],
+        invariant: '253402923340548110',
+        stable: '1591271484030407051',
+        risky: '16350841028828067004'
+      },
+      {
+        scaleFactors: [1e12, 1],
+        args: ['700000', '300000000000000000', '1000000000000000000', 2500, 63113904],
+        invariant: '2055398293508527628',
+        stable: '3478624928604337856',
+        risky: '10532887951903343167'
+      }
+    ] as const
+
+    // signed 64.64 inputs of `cdfX64`, which negates them, and its outputs
+    const cdfs = [
+      ['0', '9289781972285902388'],
+      ['-18446744073709551616', '15541630214065906367'],
+      ['9223372036854775808', '5649327539741646376'],
+      ['36893488147419103232', '416796064579131164'],
+      ['-55340232221128654848', '18421993087843944804']
+    ]
+
+    // wei inputs of `inverseCDF` and its outputs
+    const inverseCdfs = [
+      ['10000000000000000', '-42913128201991212071'],
+      ['250000000000000000', '-12440554682632519967'],
+      ['500000000000000000', '0'],
+      ['750000000000000000', '12440554682632519966'],
+      ['990000000000000000', '42913128201991212071']
+    ]
+
+    curves.forEach(({ scaleFactors, args, invariant, stable: expStable, risky: expRisky }) => {
+      const [scaleRisky, scaleStable] = scaleFactors
+      const [risky, stable, strike, sigma, tau] = args
+
+      it(`#calcInvariant of ${risky} risky and ${stable} stable`, async function() {
+        expect(
+          ReplicationMath.calcInvariant(scaleRisky, scaleStable, risky, stable, strike, sigma, tau).toString()
+        ).toBe(invariant)
+      })
+
+      it(`#getStableGivenRisky of ${risky} risky`, async function() {
+        const output = ReplicationMath.getStableGivenRisky(
+          BigNumber.from(0),
+          scaleRisky,
+          scaleStable,
+          risky,
+          strike,
+          sigma,
+          tau
+        )
+        expect(ReplicationMath.scaleToX64(output, scaleStable).toString()).toBe(expStable)
+      })
+
+      it(`#getRiskyGivenStable of ${stable} stable`, async function() {
+        const output = ReplicationMath.getRiskyGivenStable(
+          BigNumber.from(0),
+          scaleRisky,
+          scaleStable,
+          stable,
+          strike,
+          sigma,
+          tau
+        )
+        expect(ReplicationMath.scaleToX64(output, scaleRisky).toString()).toBe(expRisky)
+      })
+    })
+
+    cdfs.forEach(([z, expected]) => {
+      it(`#getCDF of ${z}`, async function() {
+        expect(CumulativeNormalDistribution.getCDF(BigNumber.from(z).mul(-1)).toString()).toBe(expected)
+      })
+    })
+
+    inverseCdfs.forEach(([p, expected]) => {
+      it(`#getInverseCDF of ${p}`, async function() {
+        const pX64 = ABDKMath64x64.divu(p, ReplicationMath.PRECISION)
+        expect(CumulativeNormalDistribution.getInverseCDF(pX64).toString()).toBe(expected)
+      })
+    })
+
+    it('#invariantOf is the invariant per liquidity', async function() {
+      const args = [reserveRisky.mul(2), reserveStable.mul(2), liquidity.mul(2), strike, sigma, tau] as const
+      expect(SwapsX64.invariantOf(18, 18, ...args).raw.toString()).toBe('421866807577096843')
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { Token, TradeType } from '@uniswap/sdk-core'
+import { parseWei, Percentage } from 'web3-units'
+
+import { Pool } from '../src/entities/pool'
+import { Trade } from '../src/entities/trade'
+
+import { usePool } from './shared/fixture'
+import { AddressOne } from './shared/constants'
+
+describe('Trade', function() {
+  let pool: Pool
+
+  beforeEach(async function() {
+    pool = usePool()
+  })
+
+  it('#exactIn', async function() {
+    const amountIn = parseWei(0.01, pool.risky.decimals)
+    const trade = Trade.exactIn(pool, pool.risky, amountIn)
+    expect(trade.tradeType).toBe(TradeType.EXACT_INPUT)
+    expect(trade.riskyForStable).toBe(true)
+    expect(trade.inputAmount.raw.eq(amountIn.raw)).toBe(true)
+    expect(trade.outputAmount.raw.eq(pool.amountOutX64(pool.risky, amountIn).output.raw)).toBe(true)
+    expect(trade.poolAfter.reserveRisky.raw.eq(pool.reserveRisky.add(amountIn).raw)).toBe(true)
+  })
+
+  it('#exactOut', async function() {
+    const amountOut = parseWei(0.01, pool.risky.decimals)
+    const trade = Trade.exactOut(pool, pool.risky, amountOut)
+    expect(trade.tradeType).toBe(TradeType.EXACT_OUTPUT)
+    expect(trade.outputAmount.raw.eq(amountOut.raw)).toBe(true)
+    expect(trade.inputAmount.raw.eq(pool.amountInX64(pool.risky, amountOut).input.raw)).toBe(true)
+  })
+
+  it('#executionPrice', async function() {
+    const trade = Trade.exactIn(pool, pool.risky, parseWei(0.01, pool.risky.decimals))
+    expect(trade.executionPrice.float).toBeCloseTo(trade.outputAmount.float / trade.inputAmount.float)
+  })
+
+  it('#spotPriceAfter is less than spotPriceBefore when selling risky', async function() {
+    const trade = Trade.exactIn(pool, pool.risky, parseWei(0.01, pool.risky.decimals))
+    expect(trade.spotPriceBefore?.gt(trade.spotPriceAfter?.raw ?? 0)).toBe(true)
+  })
+
+  it('#priceImpact', async function() {
+    const trade = Trade.exactIn(pool, pool.risky, parseWei(0.01, pool.risky.decimals))
+    const spot = trade.spotPriceBefore?.float ?? 0
+    const impact = (spot - trade.executionPrice.float) / spot
+    expect(trade.priceImpact?.float).toBeCloseTo(impact, 3)
+    expect(trade.priceImpact?.raw.gt(0)).toBe(true)
+  })
+
+  it('#fee', async function() {
+    const amountIn = parseWei(1, pool.risky.decimals)
+    const trade = Trade.exactIn(pool, pool.risky, amountIn.div(100))
+    const fee = amountIn
+      .div(100)
+      .mul(Percentage.BasisPoints - pool.gamma.bps)
+      .div(Percentage.BasisPoints)
+    expect(trade.fee.raw.eq(fee.raw)).toBe(true)
+  })
+
+  it('fails if token is not in pair', async function() {
+    const token = new Token(1, AddressOne, 18)
+    expect(() => Trade.exactIn(pool, token, parseWei(1, 18))).toThrow()
+  })
+})
@@ -0,0 +1,64 @@
+import { parseWei } from 'web3-units'
+
+import { Pool } from '../src/entities/pool'
+import { Zap } from '../src/entities/zap'
+
+import { usePool, useWethPool } from './shared/fixture'
+
+describe('Zap', function() {
+  let pool: Pool
+
+  beforeEach(async function() {
+    pool = usePool()
+  })
+
+  it('#exactIn swaps risky and allocates the rest at the reserve ratio', async function() {
+    const amountIn = parseWei(0.1, pool.risky.decimals)
+    const zap = Zap.exactIn(pool, pool.risky, amountIn)
+    const { poolAfter } = zap.trade
+    expect(zap.riskyForStable).toBe(true)
+    expect(
+      zap.trade.inputAmount
+        .add(zap.delRisky)
+        .add(zap.leftoverInput)
+        .raw.eq(amountIn.raw)
+    ).toBe(true)
+    expect(zap.leftoverInput.float + zap.leftoverOutput.float).toBeLessThan(1e-12)
+    expect(zap.delRisky.float / zap.delStable.float).toBeCloseTo(
+      poolAfter.reserveRisky.float / poolAfter.reserveStable.float,
+      10
+    )
+    expect(zap.poolAfter.liquidity.raw.eq(pool.liquidity.add(zap.delLiquidity).raw)).toBe(true)
+  })
+
+  it('#exactIn swaps stable and allocates the rest at the reserve ratio', async function() {
+    const wethPool = useWethPool()
+    const amountIn = parseWei(1, wethPool.stable.decimals)
+    const zap = Zap.exactIn(wethPool, wethPool.stable, amountIn)
+    const { poolAfter } = zap.trade
+    expect(zap.riskyForStable).toBe(false)
+    expect(
+      zap.trade.inputAmount
+        .add(zap.delStable)
+        .add(zap.leftoverInput)
+        .raw.eq(amountIn.raw)
+    ).toBe(true)
+    expect(zap.leftoverInput.float + zap.leftoverOutput.float).toBeLessThan(1e-12)
+    expect(zap.delRisky.float / zap.delStable.float).toBeCloseTo(
+      poolAfter.reserveRisky.float / poolAfter.reserveStable.float,
+      10
+    )
+  })
+
+  it('#getAllocation allocates less with less output', async function() {
+    const zap = Zap.exactIn(pool, pool.risky, parseWei(0.1, pool.risky.decimals))
+    const allocation = zap.getAllocation(zap.trade.outputAmount.mul(99).div(100))
+    expect(allocation.delLiquidity.lt(zap.delLiquidity)).toBe(true)
+    expect(allocation.delStable.raw.eq(zap.trade.outputAmount.mul(99).div(100).raw)).toBe(true)
+    expect(allocation.delRisky.lt(zap.delRisky)).toBe(true)
+  })
+
+  it('fails if the amount in is too small', async function() {
+    expect(() => Zap.exactIn(pool, pool.risky, parseWei(0, pool.risky.decimals))).toThrow('Amount in is too small')
+  })
+})
@@ -1,3 +1,5 @@
+import { Interface } from '@ethersproject/abi'
+import { Log } from '@ethersproject/abstract-provider'
 import { Token, WETH9 } from '@uniswap/sdk-core'
 import { AddressZero } from '@ethersproject/constants'
 import { parseWei, Time } from 'web3-units'
@@ -156,3 +158,25 @@ export function useWethPool(): Pool {
   const pool = Pool.from(uri, spot.float)
   return pool
 }
+
+export function useLog(
+  address: string,
+  contractInterface: Interface,
+  name: string,
+  values: any[],
+  blockNumber = 1,
+  logIndex = 3
+): Log {
+  const { data, topics } = contractInterface.encodeEventLog(contractInterface.getEvent(name), values)
+  return {
+    address,
+    data,
+    topics,
+    blockNumber,
+    blockHash: '0x' + '00'.repeat(32),
+    transactionIndex: 0,
+    transactionHash: '0x' + 'ab'.repeat(32),
+    logIndex,
+    removed: false
+  }
+}